@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import {
+  Adjudication,
+  ADJUDICATION_DECISIONS,
+  AdjudicationRequest,
+  AdjudicationService,
+} from '../services/adjudication.service';
+import { AdjudicationDecision } from '../utils/sanctionsMatch';
+import { validateAnyRegistrationNumber } from '../services/countryRegistry.service';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export class AdjudicationController {
+  /**
+   * Mark a screening candidate as a false positive or true match for a company
+   * POST /api/adjudications { registration_number, entity_id, decision, comment?, analyst? }
+   */
+  static async create(req: Request, res: Response): Promise<Response> {
+    const body = req.body as Partial<AdjudicationRequest> | undefined;
+
+    const regNumber = validateAnyRegistrationNumber(body?.registration_number);
+    if (!regNumber.valid) {
+      return res.status(400).json({
+        success: false,
+        error: regNumber.reason
+      } as ApiResponse<null>);
+    }
+
+    if (!body?.entity_id || typeof body.entity_id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'entity_id is required'
+      } as ApiResponse<null>);
+    }
+
+    if (!ADJUDICATION_DECISIONS.includes(body.decision as AdjudicationDecision)) {
+      return res.status(400).json({
+        success: false,
+        error: `decision must be one of: ${ADJUDICATION_DECISIONS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    try {
+      const adjudication = await new AdjudicationService().decide({
+        registration_number: regNumber.value,
+        entity_id: body.entity_id,
+        decision: body.decision as AdjudicationDecision,
+        comment: typeof body.comment === 'string' ? body.comment : null,
+        analyst: typeof body.analyst === 'string' ? body.analyst : null,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: adjudication
+      } as ApiResponse<Adjudication>);
+    } catch (error) {
+      if ((error as Error).message === 'Candidate not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Candidate not found in the latest risk profile of this company'
+        } as ApiResponse<null>);
+      }
+
+      console.error('Adjudication failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to store adjudication'
+      } as ApiResponse<null>);
+    }
+  }
+
+  /**
+   * List decisions for a company, including invalidated ones
+   * GET /api/adjudications?registration_number=<code>
+   */
+  static async list(req: Request, res: Response): Promise<Response> {
+    const regNumber = validateAnyRegistrationNumber(req.query.registration_number);
+    if (!regNumber.valid) {
+      return res.status(400).json({
+        success: false,
+        error: regNumber.reason
+      } as ApiResponse<null>);
+    }
+
+    try {
+      const adjudications = await new AdjudicationService().getDecisions(regNumber.value);
+      return res.status(200).json({
+        success: true,
+        data: adjudications
+      } as ApiResponse<Adjudication[]>);
+    } catch (error) {
+      console.error('Loading adjudications failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to load adjudications'
+      } as ApiResponse<null>);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { CsvDataService } from '../services/csvData.service';
+import { getCountryRegistry, getEnabledRegistryCountries } from '../services/countryRegistry.service';
+import { EvidenceService, ScreeningEvidence } from '../services/evidence.service';
+import { LocalSanctionsService } from '../services/sanctionsList.service';
+import { getRateLimiterStatuses } from '../utils/rateLimit';
+import { getCircuitBreakerStatuses } from '../utils/resilience';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export class AdminController {
+  /**
+   * Return load status of the in-memory CSV datasets
+   */
+  static async getDatasetStatus(req: Request, res: Response): Promise<Response> {
+    return res.status(200).json({
+      success: true,
+      data: CsvDataService.getInstance().getStats()
+    } as ApiResponse<ReturnType<CsvDataService['getStats']>>);
+  }
+
+  /**
+   * Reload the CSV datasets on demand.
+   * On failure the previously loaded data keeps serving lookups.
+   */
+  static async reloadDatasets(req: Request, res: Response): Promise<Response> {
+    const csvDataService = CsvDataService.getInstance();
+
+    try {
+      await csvDataService.reload();
+      return res.status(200).json({
+        success: true,
+        data: csvDataService.getStats()
+      } as ApiResponse<ReturnType<CsvDataService['getStats']>>);
+    } catch (error) {
+      return res.status(502).json({
+        success: false,
+        error: `Dataset reload failed, previous data kept: ${(error as Error).message}`
+      } as ApiResponse<null>);
+    }
+  }
+
+  /**
+   * Return load status of every enabled country registry, keyed by country code
+   */
+  static async getRegistryStatus(req: Request, res: Response): Promise<Response> {
+    const statuses = Object.fromEntries(
+      getEnabledRegistryCountries().map((countryCode) => [countryCode, getCountryRegistry(countryCode)!.getStats()])
+    );
+    return res.status(200).json({
+      success: true,
+      data: statuses
+    } as ApiResponse<Record<string, Record<string, unknown>>>);
+  }
+
+  /**
+   * Reload one country's registry on demand
+   */
+  static async reloadRegistry(req: Request, res: Response): Promise<Response> {
+    const registry = getCountryRegistry(String(req.params.country));
+    if (!registry) {
+      return res.status(404).json({
+        success: false,
+        error: `No company registry enabled for ${req.params.country}`
+      } as ApiResponse<null>);
+    }
+
+    try {
+      await registry.reload();
+      return res.status(200).json({
+        success: true,
+        data: registry.getStats()
+      } as ApiResponse<Record<string, unknown>>);
+    } catch (error) {
+      return res.status(502).json({
+        success: false,
+        error: `Registry reload failed, previous data kept: ${(error as Error).message}`
+      } as ApiResponse<null>);
+    }
+  }
+
+  /**
+   * Return load status of the offline sanctions lists
+   */
+  static async getSanctionsStatus(req: Request, res: Response): Promise<Response> {
+    return res.status(200).json({
+      success: true,
+      data: LocalSanctionsService.getInstance().getStats()
+    } as ApiResponse<ReturnType<LocalSanctionsService['getStats']>>);
+  }
+
+  /**
+   * Reload the offline sanctions lists from SANCTIONS_DATA_DIR
+   */
+  static async reloadSanctions(req: Request, res: Response): Promise<Response> {
+    const sanctionsService = LocalSanctionsService.getInstance();
+
+    try {
+      await sanctionsService.reload();
+      return res.status(200).json({
+        success: true,
+        data: sanctionsService.getStats()
+      } as ApiResponse<ReturnType<LocalSanctionsService['getStats']>>);
+    } catch (error) {
+      return res.status(502).json({
+        success: false,
+        error: `Sanctions list reload failed, previous lists kept: ${(error as Error).message}`
+      } as ApiResponse<null>);
+    }
+  }
+
+  /**
+   * Return the raw provider requests and responses recorded for a risk profile
+   */
+  static async getProfileEvidence(req: Request, res: Response): Promise<Response> {
+    try {
+      const evidence = await new EvidenceService().getForProfile(String(req.params.profileId));
+      return res.status(200).json({
+        success: true,
+        data: evidence
+      } as ApiResponse<ScreeningEvidence[]>);
+    } catch (error) {
+      console.error('Loading screening evidence failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to load screening evidence'
+      } as ApiResponse<null>);
+    }
+  }
+
+  /**
+   * Return circuit breaker state of every external provider called so far
+   */
+  static async getCircuitBreakers(req: Request, res: Response): Promise<Response> {
+    return res.status(200).json({
+      success: true,
+      data: getCircuitBreakerStatuses()
+    } as ApiResponse<ReturnType<typeof getCircuitBreakerStatuses>>);
+  }
+
+  /**
+   * Return rate limits and today's usage of every external provider
+   */
+  static async getRateLimits(req: Request, res: Response): Promise<Response> {
+    return res.status(200).json({
+      success: true,
+      data: getRateLimiterStatuses()
+    } as ApiResponse<ReturnType<typeof getRateLimiterStatuses>>);
+  }
+}
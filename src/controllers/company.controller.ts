@@ -1,12 +1,31 @@
 import { Request, Response } from 'express';
 import { CompanyService } from '../services/company.service';
-import { CsvDataService } from '../services/csvData.service';
-import { ExternalApiService } from '../services/externalApi.service';
+import { AdverseMediaSearchResult, AdverseMediaService, AdverseMediaStatus } from '../services/adverseMedia.service';
+import { AggregateData, BeneficialOwner, InsolvencyProceeding, Officer } from '../services/csvData.service';
+import { getCountryRegistry } from '../services/countryRegistry.service';
+import type { DatasetVersion } from '../services/datasetSource.service';
+import { EvidenceService } from '../services/evidence.service';
+import { CheckStatus, ExternalApiService, VatStatus } from '../services/externalApi.service';
 import { SupabaseService } from '../services/supabase';
+import { RiskIndicator, RiskScoringService } from '../services/riskScoring.service';
+import { FinancialsService, FinancialSummary } from '../services/financials.service';
+import { PersonScreeningResult, PersonScreeningService } from '../services/personScreening.service';
+import type { CacheProvenance } from '../services/resultCache.service';
+import { TaxRatingGrade } from '../utils/taxRating';
 import type { Tables } from '../types';
+import { SanctionCandidate } from '../utils/sanctionsMatch';
+import { toCountryCode } from '../utils/country';
+import { AddressComparison } from '../utils/address';
+import { AdverseMediaFinding } from '../utils/adverseMediaAnalysis';
+import { EvidenceLog, withEvidenceLog } from '../utils/evidence';
+import { toJson } from '../utils/json';
+import { DiscardedArticle } from '../utils/mediaDisambiguation';
+import { normalizeRegistrationNumber, RegistrationNumberResult } from '../utils/registrationNumber';
 
 interface GetCompanyRequest {
   registrationNumber: string;
+  /** Call every provider even when a fresh cached result exists */
+  forceRefresh?: boolean;
 }
 
 interface ApiResponse<T> {
@@ -20,6 +39,10 @@ type CompanyData = Tables<'kyb_submissions'>;
 interface RiskProfile {
   registration_number: string;
   company_name: string;
+  /** Country whose registry supplied the registry data; null when there is no registry for the country */
+  registry_country: string | null;
+  /** Version of each registry dataset the profile was built from, keyed by dataset key */
+  dataset_versions: Record<string, DatasetVersion>;
   
   // Local CSV data
   address: string;
@@ -29,24 +52,66 @@ interface RiskProfile {
   terminated_date: string | null;
   tax_rating: string | null;
   tax_explanation: string | null;
-  has_insolvency?: boolean;
+  tax_rating_grade: TaxRatingGrade | null;
+  tax_rating_meaning: string | null;
+  tax_rating_updated_date: string | null;
+  /** Rating is older than TAX_RATING_MAX_AGE_DAYS or undated */
+  tax_rating_is_stale: boolean | null;
+  has_insolvency_history?: boolean;
+  has_open_insolvency?: boolean;
   insolvency_details: string | null;
+  insolvency_proceedings: InsolvencyProceeding[];
+  beneficial_owners: BeneficialOwner[];
+  officers: Officer[];
+  financials: FinancialSummary | null;
   
   // External API results
+  vies_status: CheckStatus;
+  vies_error: string | null;
+  /** Country prefix + VAT number, e.g. LV + registration number; null when not known */
+  vat_number: string | null;
+  vat_status: VatStatus | null;
+  vies_valid: boolean;
+  vies_name: string | null;
+  vies_address: string | null;
+  /** VIES vs registry address; null when either is missing */
+  vies_address_comparison: AddressComparison | null;
+  /** clear / hit / unavailable - an unavailable check is not a clean result */
+  sanctions_status: CheckStatus;
+  sanctions_error: string | null;
   is_sanctioned: boolean;
   sanction_sources: string[];
   sanction_details: string | null;
+  /** Every screening candidate with its score, matched name and classification */
+  sanction_candidates: SanctionCandidate[];
+  /** Any linked person (applicant, officer, beneficial owner) is politically exposed */
   is_pep: boolean;
-  pep_details: string | null;
+  /** Screening result per linked person, with their roles */
+  pep_details: PersonScreeningResult[];
+  person_screening_status: CheckStatus;
+  /** Linked persons left unscreened over the per-profile limit; the screening is unavailable when not 0 */
+  person_screening_skipped: number;
   
-  // AI Analysis
+  // AI Analysis, filled in by a background stage after the profile is saved
+  adverse_media_status: AdverseMediaStatus;
+  adverse_media_error: string | null;
   adverse_media_risk_score: number;
   adverse_media_summary: string;
   adverse_media_mentions: number;
+  adverse_media_links: string[];
+  adverse_media_findings: AdverseMediaFinding[];
+  adverse_media_matches: AdverseMediaSearchResult['matches'];
+  /** Search results about other entities with a similar name */
+  adverse_media_discarded: DiscardedArticle[];
   
   // Overall assessment
   overall_risk_level: string;
+  risk_score: number;
+  risk_indicators: RiskIndicator[];
   checked_at: string;
+
+  /** Per source (vies, sanctions, person_screening, adverse_media): whether its result came from cache, and its age */
+  cache_provenance: Record<string, CacheProvenance>;
 }
 
 export class CompanyController {
@@ -56,22 +121,23 @@ export class CompanyController {
    * 1. Gets company submission data
    * 2. Aggregates data from CSV files (parallel)
    * 3. Checks external APIs (parallel)
-   * 4. Analyzes adverse media with AI (parallel)
-   * 5. Saves complete profile to database
-   * 6. Returns enriched data immediately
+   * 4. Saves complete profile to database
+   * 5. Returns enriched data immediately
+   * 6. Analyzes adverse media with AI in the background and updates the saved profile
    */
   static async generateRiskProfile(req: Request, res: Response): Promise<Response> {
     try {
-      // Validate request
-      const validationError = CompanyController.validateGetCompanyRequest(req.body);
-      if (validationError) {
+      // Validate request and normalize the registration number; its format is checked once the country is known
+      const validation = CompanyController.validateGetCompanyRequest(req.body);
+      if (!validation.valid) {
         return res.status(400).json({
           success: false,
-          error: validationError
+          error: validation.reason
         } as ApiResponse<null>);
       }
 
-      const { registrationNumber }: GetCompanyRequest = req.body;
+      const registrationNumber = validation.value;
+      const forceRefresh = req.body.forceRefresh === true;
 
       // Step A: Get submission to ensure base record exists
       const companyService = new CompanyService();
@@ -88,51 +154,71 @@ export class CompanyController {
 
       const companyName = submissionData.company_name || 'Unknown Company';
 
-      // Step B: Aggregate data from all sources in parallel
-      let localData = null;
+      // Step B: The country of registration picks the registry, which also knows the number format.
+      // Without a registry for the country, a non-empty number is all that can be checked.
+      const countryCode = toCountryCode(submissionData.country_of_registration) || 'LV';
+      const registry = getCountryRegistry(countryCode);
+      if (registry) {
+        // The submitted form, so only this country's prefix is accepted
+        const countryValidation = registry.validateRegistrationNumber(req.body.registrationNumber);
+        if (!countryValidation.valid) {
+          return res.status(400).json({
+            success: false,
+            error: countryValidation.reason
+          } as ApiResponse<null>);
+        }
+      }
+
+      // Registry data first - its address sharpens the sanctions query
+      let localData: AggregateData | null = null;
       let apiResults = null;
       let localDataError = null;
 
+      if (!registry) {
+        localDataError = `No company registry available for ${countryCode}`;
+      } else {
+        try {
+          localData = registry.getAggregateData(registrationNumber);
+        } catch (error) {
+          localDataError = (error as Error).message;
+        }
+      }
+      if (localDataError) {
+        console.warn(`⚠️ Registry data unavailable: ${localDataError}`);
+      }
+
+      // Every provider request and response is kept as audit evidence
+      const evidence = new EvidenceLog();
+
       try {
-        [localData, apiResults] = await Promise.all([
-          // CSV Data lookup
-          (async () => {
-            try {
-              return await CsvDataService.getInstance().getAggregateData(registrationNumber);
-            } catch (error) {
-              localDataError = (error as Error).message;
-              return null;
-            }
-          })(),
-          // External API checks
-          ExternalApiService.checkAll(registrationNumber, companyName)
-        ]);
+        // External API checks
+        apiResults = await withEvidenceLog(evidence, () => ExternalApiService.checkAll(
+          registrationNumber,
+          companyName,
+          countryCode,
+          localData?.address || null,
+          PersonScreeningService.collectLinkedPersons(localData, submissionData),
+          registry ? registry.getVatNumber(registrationNumber, localData) : undefined,
+          forceRefresh
+        ));
       } catch (error) {
-        console.error('Error during parallel data aggregation:', error);
+        console.error('Error during external checks:', error);
         return res.status(500).json({
           success: false,
           error: 'Failed to aggregate company data'
         } as ApiResponse<null>);
       }
 
-      // If company not found in Registry CSV, return error
-      // if (!localData) {
-      //   return res.status(404).json({
-      //     success: false,
-      //     error: localDataError || 'Company not found in Latvian Registry'
-      //   } as ApiResponse<null>);
-      // }
-
       // Calculate overall risk level
-      const overallRiskLevel = CompanyController.calculateOverallRisk(
-        localData,
-        apiResults
-      );
+      const riskAssessment = RiskScoringService.assess(localData, apiResults, submissionData);
 
       // Step C: Build complete risk profile
+      const adverseMediaEnabled = AdverseMediaService.isEnabled();
       const riskProfile: RiskProfile = {
         registration_number: registrationNumber,
         company_name: companyName,
+        registry_country: registry?.countryCode ?? null,
+        dataset_versions: registry?.isReady() ? registry.getDatasetVersions() : {},
         
         // Local CSV data
         address: localData?.address || '',
@@ -141,42 +227,96 @@ export class CompanyController {
         terminated_date: localData?.terminated || null || '',
         tax_rating: localData?.rating || '',
         tax_explanation: localData?.explanation || '',
+        tax_rating_grade: localData?.tax_rating?.grade ?? null,
+        tax_rating_meaning: localData?.tax_rating?.meaning ?? null,
+        tax_rating_updated_date: localData?.rating_updated_date ?? null,
+        tax_rating_is_stale: localData?.tax_rating?.is_stale ?? null,
         insolvency_details: localData?.proceeding_resolution_name || '',
+        insolvency_proceedings: localData?.insolvency_proceedings || [],
+        beneficial_owners: localData?.beneficial_owners || [],
+        officers: localData?.officers || [],
+        financials: FinancialsService.summarize(localData?.financial_statements || []),
         
         // External API results  
+        vies_status: apiResults.vies_status,
+        vies_error: apiResults.vies_error,
+        vat_number: apiResults.vat_number,
+        vat_status: apiResults.vat_status,
+        vies_valid: apiResults.vies_valid,
+        vies_name: apiResults.vies_name,
+        vies_address: apiResults.vies_address,
+        vies_address_comparison: apiResults.vies_address_comparison,
+        sanctions_status: apiResults.sanctions_status,
+        sanctions_error: apiResults.sanctions_error,
         is_sanctioned: apiResults.is_sanctioned,
         sanction_sources: apiResults.sanction_sources,
         sanction_details: apiResults.sanction_details,
-        is_pep: false, // PEP check removed, focus on company sanctions
-        pep_details: null,
+        sanction_candidates: apiResults.sanction_candidates,
+        is_pep: apiResults.person_screening.is_pep,
+        pep_details: apiResults.person_screening.persons,
+        person_screening_status: apiResults.person_screening.status,
+        person_screening_skipped: apiResults.person_screening.skipped_persons,
         
-        // AI Analysis (disabled)
+        // AI Analysis, run after the profile is saved
+        adverse_media_status: adverseMediaEnabled ? 'pending' : 'disabled',
+        adverse_media_error: null,
         adverse_media_risk_score: 0,
-        adverse_media_summary: 'Adverse media check disabled',
+        adverse_media_summary: adverseMediaEnabled ? 'Adverse media check pending' : 'Adverse media check disabled',
         adverse_media_mentions: 0,
+        adverse_media_links: [],
+        adverse_media_findings: [],
+        adverse_media_matches: [],
+        adverse_media_discarded: [],
         
         // Overall assessment
-        overall_risk_level: overallRiskLevel,
+        overall_risk_level: riskAssessment.level,
+        risk_score: riskAssessment.score,
+        risk_indicators: riskAssessment.indicators,
         checked_at: new Date().toISOString(),
+
+        cache_provenance: apiResults.cache_provenance,
       };
 
       if (localData?.is_active !== undefined) {
         riskProfile.is_active = localData?.is_active;
       }
-      if (localData?.has_insolvency !== undefined) {
-        riskProfile.has_insolvency = localData?.has_insolvency
+      if (localData) {
+        riskProfile.has_insolvency_history = localData.has_insolvency_history;
+        riskProfile.has_open_insolvency = localData.has_open_insolvency;
       }
 
       console.log('Generated risk profile:', riskProfile);
 
       // Step D: Save to database
+      let profileId: string | null = null;
       try {
-        await CompanyController.saveRiskProfile(submissionData, riskProfile);
+        profileId = await CompanyController.saveRiskProfile(submissionData, riskProfile, localData);
       } catch (error) {
         console.error('Failed to save risk profile:', error);
         // Continue even if save fails - we can still return the data
       }
 
+      if (profileId) {
+        try {
+          await new EvidenceService().save(profileId, registrationNumber, evidence.records);
+        } catch (error) {
+          console.error('Failed to save screening evidence:', error);
+        }
+
+        // Web search and AI analysis take seconds to minutes, so they run after responding
+        if (adverseMediaEnabled) {
+          void AdverseMediaService.enrichProfile(profileId, registrationNumber, {
+            name: companyName,
+            registration_number: registrationNumber,
+            city: localData?.city || null,
+            persons: [
+              ...(localData?.officers || []).map((officer) => officer.name),
+              ...(localData?.beneficial_owners || []).map((owner) => owner.name),
+            ],
+          }, riskProfile, forceRefresh);
+        }
+      }
+
       // Step E: Return complete enriched profile
       return res.status(200).json({
         success: true,
@@ -196,55 +336,29 @@ export class CompanyController {
     return CompanyController.generateRiskProfile(req, res);
   }
 
-  /**
-   * Calculate overall risk level based on all data sources
-   */
-  private static calculateOverallRisk(
-    localData: any,
-    apiResults: any
-  ): string {
-    let riskScore = 0;
-
-    // Terminated companies: +30
-    if (!localData?.is_active) riskScore += 30;
-
-    // Has insolvency: +40
-    if (localData?.has_insolvency) riskScore += 40;
-
-    // Sanctioned: +50 (critical)
-    if (apiResults.is_sanctioned) riskScore += 50;
-
-    // Poor tax rating: +20
-    if (localData?.rating && localData?.rating.toLowerCase().includes('poor')) {
-      riskScore += 20;
-    }
-
-    // Determine level
-    if (riskScore >= 80) return 'CRITICAL';
-    if (riskScore >= 50) return 'HIGH';
-    if (riskScore >= 25) return 'MEDIUM';
-    return 'LOW';
-  }
-
   /**
    * Save risk profile to database with Priority 1 KYC/AML fields
+   * @returns Id of the new company_risk_profiles row
    */
-  private static async saveRiskProfile(submissionData: CompanyData, profile: RiskProfile): Promise<void> {
+  private static async saveRiskProfile(
+    submissionData: CompanyData,
+    profile: RiskProfile,
+    // Full registry data for the Priority 1 fields
+    localData: AggregateData | null
+  ): Promise<string> {
     const supabaseService = new SupabaseService();
     await supabaseService.signIn();
 
-    // Get the full aggregate data to access Priority 1 fields
-    const localData = await CsvDataService.getInstance().getAggregateData(profile.registration_number);
-
-    const { error } = await supabaseService.getClient()
+    const { data, error } = await supabaseService.getClient()
       .from('company_risk_profiles')
       .insert({
         submission_id: submissionData.id,
         registration_number: profile.registration_number,
         company_name: profile.company_name,
-        profile_data: profile as any, // Store entire profile as JSON
+        profile_data: toJson(profile),
         risk_level: profile.overall_risk_level,
         checked_at: profile.checked_at,
+        dataset_versions: toJson(profile.dataset_versions),
         
         // Existing fields
         address: profile.address,
@@ -253,8 +367,14 @@ export class CompanyController {
         is_active: profile.is_active,
         tax_rating: profile.tax_rating,
         tax_status_explanation: profile.tax_explanation,
-        has_insolvency_history: profile.has_insolvency,
+        has_insolvency: profile.has_open_insolvency,
+        has_insolvency_history: profile.has_insolvency_history,
         insolvency_details: profile.insolvency_details,
+        is_pep: profile.is_pep,
+        pep_details: toJson(profile.pep_details),
+        // Only meaningful when VIES answered
+        vies_valid: profile.vat_status === null ? null : profile.vies_valid,
+        vies_address: profile.vies_address,
         
         // Priority 1 Registry fields
         sepa: localData?.sepa || null,
@@ -273,32 +393,28 @@ export class CompanyController {
         insolvency_form: localData?.proceeding_form || null,
         insolvency_type: localData?.proceeding_type || null,
         insolvency_court_name: localData?.court_name || null,
-      });
+      })
+      .select('id')
+      .single();
 
-    if (error) {
+    if (error || !data) {
       console.error('Error saving risk profile:', error);
       throw new Error('Failed to save risk profile to database');
     }
+    return data.id;
   }
 
-  private static validateGetCompanyRequest(body: any): string | null {
+  private static validateGetCompanyRequest(body: Partial<GetCompanyRequest> | undefined): RegistrationNumberResult {
     if (!body) {
-      return 'Request body is required';
-    }
-
-    if (!body.registrationNumber) {
-      return 'Company registration number is required';
-    }
-
-    if (typeof body.registrationNumber !== 'string') {
-      return 'Company registration number must be a string';
+      return { valid: false, reason: 'Request body is required' };
     }
 
-    if (body.registrationNumber.trim().length === 0) {
-      return 'Company registration number cannot be empty';
+    const input = body.registrationNumber;
+    if (typeof input !== 'string' || normalizeRegistrationNumber(input) === '') {
+      return { valid: false, reason: 'Company registration number is required' };
     }
 
-    return null;
+    return { valid: true, value: normalizeRegistrationNumber(input) };
   }
 
   private static handleError(error: any, res: Response): Response {
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { RegistrySearchResult } from '../services/csvData.service';
+import { getCountryRegistry } from '../services/countryRegistry.service';
+import { toCountryCode } from '../utils/country';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export class RegistryController {
+  private static readonly MIN_QUERY_LENGTH = 2;
+  private static readonly DEFAULT_LIMIT = 10;
+  private static readonly MAX_LIMIT = 50;
+
+  /**
+   * Type-ahead company search over the in-memory registry
+   * GET /api/registry/search?q=<name>&limit=<n>&country=<code>
+   * country defaults to LV
+   */
+  static async search(req: Request, res: Response): Promise<Response> {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (query.length < RegistryController.MIN_QUERY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Query parameter "q" must be at least ${RegistryController.MIN_QUERY_LENGTH} characters`
+      } as ApiResponse<null>);
+    }
+
+    const requestedLimit = Number(req.query.limit);
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, RegistryController.MAX_LIMIT)
+      : RegistryController.DEFAULT_LIMIT;
+
+    const countryCode = typeof req.query.country === 'string' ? toCountryCode(req.query.country) : 'LV';
+    const registry = countryCode ? getCountryRegistry(countryCode) : null;
+    if (!registry) {
+      return res.status(400).json({
+        success: false,
+        error: `No company registry available for country "${req.query.country}"`
+      } as ApiResponse<null>);
+    }
+
+    try {
+      // A pasted registration number resolves directly to that company
+      const regNumber = registry.validateRegistrationNumber(query);
+      if (regNumber.valid) {
+        const match = registry.findByRegistrationNumber(regNumber.value);
+        return res.status(200).json({
+          success: true,
+          data: match ? [match] : []
+        } as ApiResponse<RegistrySearchResult[]>);
+      }
+
+      const results = registry.searchByName(query, limit);
+      return res.status(200).json({
+        success: true,
+        data: results
+      } as ApiResponse<RegistrySearchResult[]>);
+    } catch (error) {
+      console.error('Registry search failed:', error);
+      return res.status(503).json({
+        success: false,
+        error: 'Registry data not available'
+      } as ApiResponse<null>);
+    }
+  }
+}
@@ -2,12 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import companyRoutes from './routes/company';
+import adminRoutes from './routes/admin';
+import registryRoutes from './routes/registry';
+import adjudicationRoutes from './routes/adjudication';
 import { CsvDataService } from './services/csvData.service';
+import { getCountryRegistry, getEnabledRegistryCountries } from './services/countryRegistry.service';
+import { ExternalApiService } from './services/externalApi.service';
+import { LocalSanctionsService } from './services/sanctionsList.service';
 
 // Load environment variables
 dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3000;
+// How often to reload the CSV datasets (0 disables the scheduled refresh)
+const CSV_REFRESH_INTERVAL_MINUTES = Number(process.env.CSV_REFRESH_INTERVAL_MINUTES ?? 1440);
 
 // Middleware
 app.use(cors());
@@ -15,6 +23,9 @@ app.use(express.json());
 
 // Routes
 app.use('/api', companyRoutes);
+app.use('/api/registry', registryRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/adjudications', adjudicationRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -48,10 +59,39 @@ async function startServer() {
     await CsvDataService.getInstance().init();
     console.log('CSV Data Service initialized successfully');
 
+    // Other countries' registries are optional; a failed load only affects their companies
+    const foreignRegistries = getEnabledRegistryCountries()
+      .filter((countryCode) => countryCode !== 'LV')
+      .map((countryCode) => getCountryRegistry(countryCode)!);
+    for (const registry of foreignRegistries) {
+      console.log(`Loading ${registry.countryCode} registry...`);
+      try {
+        await registry.init();
+      } catch (error) {
+        console.error(`Failed to load ${registry.countryCode} registry:`, error);
+      }
+    }
+
+    // Offline sanctions lists are needed whenever the local provider is in use
+    if (ExternalApiService.getSanctionsProvider().name === 'local') {
+      console.log('Loading local sanctions lists...');
+      try {
+        await LocalSanctionsService.getInstance().reload();
+      } catch (error) {
+        console.error('Failed to load local sanctions lists:', error);
+      }
+    }
+
+    if (CSV_REFRESH_INTERVAL_MINUTES > 0) {
+      CsvDataService.getInstance().startScheduledRefresh(CSV_REFRESH_INTERVAL_MINUTES * 60 * 1000);
+      foreignRegistries.forEach((registry) => registry.startScheduledRefresh(CSV_REFRESH_INTERVAL_MINUTES * 60 * 1000));
+    }
+
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
       console.log(`Health check: http://localhost:${PORT}/health`);
       console.log(`Company endpoint: http://localhost:${PORT}/api/company`);
+      console.log(`Registry search: http://localhost:${PORT}/api/registry/search?q=`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Protect admin endpoints with a shared key sent in the `x-admin-key` header.
+ * Admin endpoints are disabled entirely when ADMIN_API_KEY is not configured.
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin endpoints are disabled (ADMIN_API_KEY not set)'
+    });
+  }
+
+  if (req.header('x-admin-key') !== adminKey) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key'
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { AdjudicationController } from '../controllers/adjudication.controller';
+import { requireAdminKey } from '../middleware/adminAuth';
+
+const router = Router();
+
+router.use(requireAdminKey);
+
+router.get('/', AdjudicationController.list);
+router.post('/', AdjudicationController.create);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { requireAdminKey } from '../middleware/adminAuth';
+
+const router = Router();
+
+router.use(requireAdminKey);
+
+router.get('/datasets', AdminController.getDatasetStatus);
+router.post('/datasets/reload', AdminController.reloadDatasets);
+router.get('/registries', AdminController.getRegistryStatus);
+router.post('/registries/:country/reload', AdminController.reloadRegistry);
+router.get('/sanctions', AdminController.getSanctionsStatus);
+router.post('/sanctions/reload', AdminController.reloadSanctions);
+router.get('/circuit-breakers', AdminController.getCircuitBreakers);
+router.get('/rate-limits', AdminController.getRateLimits);
+router.get('/profiles/:profileId/evidence', AdminController.getProfileEvidence);
+
+export default router;
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { RegistryController } from '../controllers/registry.controller';
+
+const router = Router();
+
+router.get('/search', RegistryController.search);
+
+export default router;
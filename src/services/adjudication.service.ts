@@ -0,0 +1,177 @@
+import { SupabaseService } from './supabase';
+import type { Tables } from '../types';
+import { normalizeRegistrationNumber } from '../utils/registrationNumber';
+import { AdjudicationDecision, hashListedEntity, SanctionCandidate } from '../utils/sanctionsMatch';
+
+export type Adjudication = Tables<'screening_adjudications'>;
+
+export const ADJUDICATION_DECISIONS: AdjudicationDecision[] = ['false_positive', 'true_match'];
+
+export interface AdjudicationRequest {
+  registration_number: string;
+  entity_id: string;
+  decision: AdjudicationDecision;
+  comment?: string | null;
+  analyst?: string | null;
+}
+
+/**
+ * Analyst decisions on screening candidates, stored in screening_adjudications
+ * with one row per (registration_number, entity_id).
+ */
+export class AdjudicationService {
+  private supabaseService: SupabaseService;
+
+  constructor() {
+    this.supabaseService = new SupabaseService();
+  }
+
+  /**
+   * Record a decision on a candidate from the company's latest risk profile.
+   * The candidate's current data hash is stored so the decision lapses when the listing changes.
+   */
+  async decide(request: AdjudicationRequest): Promise<Adjudication> {
+    await this.supabaseService.signIn();
+    const registrationNumber = normalizeRegistrationNumber(request.registration_number);
+
+    const candidate = await this.findLatestCandidate(registrationNumber, request.entity_id);
+    if (!candidate) {
+      throw new Error('Candidate not found');
+    }
+
+    const { data, error } = await this.supabaseService.getClient()
+      .from('screening_adjudications')
+      .upsert({
+        registration_number: registrationNumber,
+        entity_id: request.entity_id,
+        entity_caption: candidate.caption,
+        entity_hash: hashListedEntity(candidate),
+        decision: request.decision,
+        comment: request.comment ?? null,
+        analyst: request.analyst ?? null,
+        invalidated_at: null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'registration_number,entity_id' })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    console.log(`✓ Adjudicated ${request.entity_id} for ${registrationNumber} as ${request.decision}`);
+    return data;
+  }
+
+  /**
+   * All decisions for a company, including invalidated ones
+   */
+  async getDecisions(rawRegistrationNumber: string): Promise<Adjudication[]> {
+    await this.supabaseService.signIn();
+
+    const { data, error } = await this.supabaseService.getClient()
+      .from('screening_adjudications')
+      .select('*')
+      .eq('registration_number', normalizeRegistrationNumber(rawRegistrationNumber))
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Mark decisions whose listed entity changed; they are kept for the audit trail but no longer applied
+   */
+  async invalidate(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.supabaseService.signIn();
+
+    const { error } = await this.supabaseService.getClient()
+      .from('screening_adjudications')
+      .update({ invalidated_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+  }
+
+  /**
+   * Apply stored decisions to screening candidates:
+   * false positives are discarded, true matches become hits.
+   * Decisions made against different listed data are reported as invalidated and not applied.
+   * @returns The adjusted candidates and the ids of decisions that lapsed in this run
+   */
+  static applyDecisions(
+    candidates: SanctionCandidate[],
+    decisions: Adjudication[]
+  ): { candidates: SanctionCandidate[]; invalidatedIds: string[] } {
+    const invalidatedIds: string[] = [];
+
+    const adjusted = candidates.map((candidate) => {
+      const decision = decisions.find((item) => item.entity_id === candidate.id);
+      if (!decision) return candidate;
+
+      const valid = decision.invalidated_at === null && decision.entity_hash === hashListedEntity(candidate);
+      if (!valid && decision.invalidated_at === null) {
+        invalidatedIds.push(decision.id);
+      }
+
+      const adjudication = {
+        id: decision.id,
+        decision: decision.decision as AdjudicationDecision,
+        comment: decision.comment,
+        analyst: decision.analyst,
+        decided_at: decision.updated_at,
+        status: valid ? 'applied' as const : 'invalidated' as const,
+      };
+
+      if (!valid) {
+        return { ...candidate, adjudication };
+      }
+
+      return {
+        ...candidate,
+        classification: decision.decision === 'true_match' ? 'hit' as const : 'discarded' as const,
+        adjudication,
+      };
+    });
+
+    return { candidates: adjusted, invalidatedIds };
+  }
+
+  /**
+   * Find a candidate, company or linked person, in the company's latest stored risk profile
+   */
+  private async findLatestCandidate(registrationNumber: string, entityId: string): Promise<SanctionCandidate | null> {
+    const { data, error } = await this.supabaseService.getClient()
+      .from('company_risk_profiles')
+      .select('profile_data')
+      .eq('registration_number', registrationNumber)
+      .order('checked_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    const profile = (data?.profile_data || {}) as {
+      sanction_candidates?: SanctionCandidate[];
+      pep_details?: Array<{ candidates?: SanctionCandidate[] }>;
+    };
+    const candidates = [
+      ...(profile.sanction_candidates || []),
+      ...(profile.pep_details || []).flatMap((person) => person.candidates || []),
+    ];
+
+    return candidates.find((candidate) => candidate.id === entityId) || null;
+  }
+}
@@ -0,0 +1,153 @@
+import { AdverseMediaSearchResult, AdverseMediaService } from './adverseMedia.service';
+import { EvidenceService } from './evidence.service';
+
+const articles = [
+  { title: 'Baltijas Nafta valdes loceklis aizturēts', url: 'https://example.lv/1', snippet: 'Aizdomas par kukuļa pieņemšanu.' },
+];
+
+const toolUse = (input: object) => ({
+  content: [{ type: 'tool_use', id: 'toolu_1', name: 'record_adverse_media_analysis', input }],
+});
+
+const valid = {
+  summary: 'Board member detained on bribery suspicion.',
+  risk_score: 70,
+  findings: [{ article: 1, category: 'corruption', severity: 'high', quote: 'kukuļa pieņemšanu' }],
+};
+
+describe('AdverseMediaService analysis repair', () => {
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    create = jest.spyOn(AdverseMediaService['anthropic'].messages, 'create');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the validation errors back and accepts the corrected analysis', async () => {
+    create
+      .mockResolvedValueOnce(toolUse({ ...valid, findings: [{ ...valid.findings[0], quote: 'invented quote' }] }) as never)
+      .mockResolvedValueOnce(toolUse(valid) as never);
+
+    const analysis = await AdverseMediaService['analyze']({ name: 'Baltijas Nafta' }, articles);
+
+    expect(analysis.findings).toEqual([{ ...valid.findings[0], url: 'https://example.lv/1' }]);
+    expect(create).toHaveBeenCalledTimes(2);
+    const repair = create.mock.calls[1][0].messages;
+    expect(repair).toHaveLength(3);
+    expect(JSON.stringify(repair[2].content)).toContain('findings[0].quote must be copied verbatim from result 1');
+  });
+
+  it('gives up after the configured repair attempts', async () => {
+    create.mockResolvedValue(toolUse({ summary: '', risk_score: 70, findings: [] }) as never);
+
+    await expect(AdverseMediaService['analyze']({ name: 'Baltijas Nafta' }, articles))
+      .rejects.toThrow('Analysis failed validation: summary must be a non-empty string');
+    expect(create).toHaveBeenCalledTimes(AdverseMediaService['MAX_REPAIR_ATTEMPTS'] + 1);
+  });
+
+  it('does not repair an answer without a tool call', async () => {
+    create.mockResolvedValue({ content: [{ type: 'text', text: 'No adverse media found.' }] } as never);
+
+    await expect(AdverseMediaService['analyze']({ name: 'Baltijas Nafta' }, articles)).rejects.toThrow(/must be a call/);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AdverseMediaService.enrichProfile', () => {
+  const hit: AdverseMediaSearchResult = {
+    status: 'hit',
+    error: null,
+    adverse_findings: true,
+    risk_score: 70,
+    summary: valid.summary,
+    negative_mentions: 1,
+    urls: ['https://example.lv/1'],
+    findings: [{ ...valid.findings[0], url: 'https://example.lv/1' } as AdverseMediaSearchResult['findings'][number]],
+    matches: [],
+    discarded: [],
+  };
+  let update: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env.SUPABASE_URL = 'http://localhost:54321';
+    process.env.SUPABASE_PUBLISHABLE_KEY = 'test';
+    jest.spyOn(AdverseMediaService, 'searchAdverseMedia').mockResolvedValue(hit);
+    update = jest.spyOn(AdverseMediaService as never, 'updateProfile').mockResolvedValue(undefined as never);
+    jest.spyOn(EvidenceService.prototype, 'save').mockResolvedValue(undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds a hit to the stored risk assessment', async () => {
+    await AdverseMediaService.enrichProfile(
+      'profile-1',
+      '40003032949',
+      { name: 'Baltijas Nafta', registration_number: '40003032949' },
+      { overall_risk_level: 'LOW', risk_score: 10, risk_indicators: [{ code: 'YOUNG_COMPANY', description: 'Registered recently', points: 10 }] },
+      true
+    );
+
+    const [profileId, stored] = update.mock.calls[0];
+    expect(profileId).toBe('profile-1');
+    expect(stored.risk_level).toBe('MEDIUM');
+    expect(stored.profile_data).toMatchObject({
+      overall_risk_level: 'MEDIUM',
+      risk_score: 40,
+      adverse_media_status: 'hit',
+    });
+    expect(stored.profile_data.risk_indicators.map((indicator: { code: string }) => indicator.code))
+      .toEqual(['YOUNG_COMPANY', 'ADVERSE_MEDIA']);
+  });
+});
+
+describe('AdverseMediaService.searchAdverseMedia without queries', () => {
+  const provider = { name: 'fixture', search: jest.fn() };
+
+  beforeEach(() => {
+    provider.search.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is unavailable when the name gives nothing to search for', async () => {
+    const result = await AdverseMediaService.searchAdverseMedia('" - "', provider);
+
+    expect(result.status).toBe('unavailable');
+    expect(result.error).toBe('No search name could be built from "" - ""');
+    expect(provider.search).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable, with a warning at startup, when no configured language is supported', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const configured = process.env.ADVERSE_MEDIA_LANGUAGES;
+    process.env.ADVERSE_MEDIA_LANGUAGES = 'de,fr';
+    let service: typeof AdverseMediaService | undefined;
+    jest.isolateModules(() => {
+      service = require('./adverseMedia.service').AdverseMediaService;
+    });
+    if (configured === undefined) {
+      delete process.env.ADVERSE_MEDIA_LANGUAGES;
+    } else {
+      process.env.ADVERSE_MEDIA_LANGUAGES = configured;
+    }
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring unsupported ADVERSE_MEDIA_LANGUAGES: de, fr'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no supported language'));
+
+    const result = await service!.searchAdverseMedia('Baltijas Nafta', provider);
+    expect(result.status).toBe('unavailable');
+    expect(result.error).toBe('No supported ADVERSE_MEDIA_LANGUAGES configured');
+    expect(provider.search).not.toHaveBeenCalled();
+  });
+});
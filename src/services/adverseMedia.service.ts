@@ -1,13 +1,68 @@
 /**
- * AdverseMediaService - Analyzes company reputation using DuckDuckGo and AI
+ * AdverseMediaService - Analyzes company reputation using a web or news search and AI
  */
 
-import { SafeSearchType, search } from 'duck-duck-scrape';
 import Anthropic from '@anthropic-ai/sdk';
 import * as dotenv from 'dotenv';
+import type { CheckStatus } from './externalApi.service';
+import { EvidenceService } from './evidence.service';
+import { getMediaSearchProvider, MediaArticle, MediaSearchProvider } from './mediaSearch.service';
+import { cachedCall, cacheKey, CacheProvenance } from './resultCache.service';
+import { RiskIndicator, RiskScoringService } from './riskScoring.service';
+import { SupabaseService } from './supabase';
+import type { TablesUpdate } from '../types';
+import { normalizeCompanyName } from '../utils/companyName';
+import { toJson } from '../utils/json';
+import { captureEvidence, EvidenceLog, withEvidenceLog } from '../utils/evidence';
+import { ArticleMatch, DiscardedArticle, disambiguateArticles, MediaEntity } from '../utils/mediaDisambiguation';
+import { buildMediaQueries, dedupeArticles, QUERY_LANGUAGES, QueryLanguage } from '../utils/mediaQueries';
+import { getRateLimiter } from '../utils/rateLimit';
+import { describeError } from '../utils/resilience';
+import {
+  AdverseMediaAnalysis,
+  AdverseMediaFinding,
+  ANALYSIS_TOOL,
+  ANALYSIS_TOOL_NAME,
+  AnalysisValidation,
+  AnalyzedArticle,
+  validateAnalysis,
+} from '../utils/adverseMediaAnalysis';
 
 dotenv.config();
 
+/**
+ * Integer setting from the environment, clamped to [min, max]; the default when unset or not a number
+ */
+function readIntSetting(name: string, fallback: number, min: number, max: number): number {
+  const configured = process.env[name];
+  const value = configured !== undefined && configured !== '' && !isNaN(Number(configured))
+    ? Math.floor(Number(configured))
+    : fallback;
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Query languages from ADVERSE_MEDIA_LANGUAGES (comma-separated, default lv,ru,en).
+ * Unsupported languages are dropped with a warning; with none left, every check is unavailable.
+ */
+function readLanguages(): QueryLanguage[] {
+  const configured = (process.env.ADVERSE_MEDIA_LANGUAGES || QUERY_LANGUAGES.join(','))
+    .split(',')
+    .map((language) => language.trim().toLowerCase())
+    .filter((language) => language !== '');
+  const unsupported = configured.filter((language) => !QUERY_LANGUAGES.includes(language as QueryLanguage));
+  if (unsupported.length > 0) {
+    console.warn(`⚠️ Ignoring unsupported ADVERSE_MEDIA_LANGUAGES: ${unsupported.join(', ')} (supported: ${QUERY_LANGUAGES.join(', ')})`);
+  }
+
+  const languages = Array.from(new Set(configured.filter((language): language is QueryLanguage =>
+    QUERY_LANGUAGES.includes(language as QueryLanguage))));
+  if (languages.length === 0) {
+    console.warn('⚠️ ADVERSE_MEDIA_LANGUAGES has no supported language, adverse media checks will be unavailable');
+  }
+  return languages;
+}
+
 export interface AdverseMediaResult {
   risk_score: number; // 0-100
   negative_mentions: number;
@@ -16,19 +71,37 @@ export interface AdverseMediaResult {
   analyzed_at: string;
 }
 
+/**
+ * pending = queued to run after the profile is saved, disabled = no search provider configured,
+ * otherwise the outcome of the check
+ */
+export type AdverseMediaStatus = 'pending' | 'disabled' | CheckStatus;
+
 export interface AdverseMediaSearchResult {
+  /** hit when adverse findings were reported, unavailable when the search or analysis failed */
+  status: CheckStatus;
+  error: string | null;
   summary: string;
   urls: string[];
   risk_score: number;
   negative_mentions: number;
   adverse_findings: boolean;
+  /** Per-article adverse statements with category, severity and a verbatim quote */
+  findings: AdverseMediaFinding[];
+  /** How each analyzed article was tied to the company */
+  matches: Array<{ url: string; match: ArticleMatch; reason: string }>;
+  /** Search results left out of the analysis as being about a different entity */
+  discarded: DiscardedArticle[];
 }
 
-export interface ClaudeAnalysisResponse {
-  summary: string;
-  risk_score: number; // 0-100
-  negative_mentions: number;
-  adverse_findings: boolean;
+/**
+ * The fields of a saved risk profile the background adverse media stage reads and rescores
+ */
+export interface StoredRiskProfile {
+  overall_risk_level: string;
+  risk_score: number;
+  risk_indicators: RiskIndicator[];
+  cache_provenance?: Record<string, CacheProvenance>;
 }
 
 export class AdverseMediaService {
@@ -36,192 +109,182 @@ export class AdverseMediaService {
     apiKey: process.env.ANTHROPIC_API_KEY,
   });
 
-  private static lastSearchTime: number = 0;
-  private static readonly MIN_SEARCH_INTERVAL = 5000; // 5 seconds between searches
-  private static searchAttempts: number = 0;
-  private static readonly MAX_DAILY_SEARCHES = 50; // Limit daily searches
-
-  /**
-   * Sleep for specified milliseconds
-   */
-  private static async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Check if search is available (rate limiting check)
-   */
-  private static canPerformSearch(): boolean {
-    // Reset counter if it's a new day
-    const now = Date.now();
-    const timeSinceLastSearch = now - this.lastSearchTime;
-    
-    // If more than 24 hours since last search, reset counter
-    if (timeSinceLastSearch > 86400000) {
-      this.searchAttempts = 0;
-    }
-
-    return this.searchAttempts < this.MAX_DAILY_SEARCHES;
-  }
+  // Model used for the analysis (ADVERSE_MEDIA_MODEL)
+  private static readonly MODEL = process.env.ADVERSE_MEDIA_MODEL || 'claude-3-5-sonnet-20241022';
+  // How many times an answer failing validation is sent back to the model for correction
+  private static readonly MAX_REPAIR_ATTEMPTS = readIntSetting('ADVERSE_MEDIA_REPAIR_ATTEMPTS', 1, 0, 3);
+  // Query languages (ADVERSE_MEDIA_LANGUAGES)
+  private static readonly LANGUAGES = readLanguages();
+  private static readonly RESULTS_PER_QUERY = 10;
+  // Articles sent to the model after deduplication and disambiguation (ADVERSE_MEDIA_MAX_ARTICLES)
+  private static readonly MAX_ARTICLES = readIntSetting('ADVERSE_MEDIA_MAX_ARTICLES', 10, 1, 50);
 
   /**
-   * Perform DuckDuckGo search with rate limiting and retry logic
-   */
-  private static async performSearch(searchQuery: string, maxRetries: number = 2): Promise<any> {
-    // Check if we've hit the daily limit
-    if (!this.canPerformSearch()) {
-      console.warn('⚠️ Daily search limit reached. Skipping adverse media search.');
-      throw new Error('Daily search limit reached');
-    }
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Ensure minimum time between searches
-        const now = Date.now();
-        const timeSinceLastSearch = now - this.lastSearchTime;
-        if (timeSinceLastSearch < this.MIN_SEARCH_INTERVAL) {
-          const waitTime = this.MIN_SEARCH_INTERVAL - timeSinceLastSearch;
-          console.log(`⏳ Rate limiting: waiting ${waitTime}ms before search...`);
-          await this.sleep(waitTime);
-        }
-
-        // Add additional random delay to appear more human-like
-        const randomDelay = Math.floor(Math.random() * 2000) + 1000; // 1-3 seconds
-        await this.sleep(randomDelay);
-
-        console.log(`🔍 Performing DuckDuckGo search (attempt ${attempt}/${maxRetries})...`);
-        
-        const searchResults = await search(searchQuery, {
-          safeSearch: SafeSearchType.OFF,
-          time: 'y', // Past year
-          locale: 'en-us'
-        });
-
-        this.lastSearchTime = Date.now();
-        this.searchAttempts++;
-        console.log(`✅ Search completed successfully (${this.searchAttempts} searches today)`);
-        return searchResults;
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`⚠️ Search attempt ${attempt} failed: ${errorMessage}`);
-
-        if (attempt < maxRetries) {
-          // Longer exponential backoff: 10s, 20s
-          const backoffTime = 10000 * Math.pow(2, attempt - 1);
-          console.log(`⏳ Retrying in ${backoffTime}ms...`);
-          await this.sleep(backoffTime);
-        } else {
-          // On final failure, log and throw
-          console.error('❌ All search attempts exhausted. DuckDuckGo may be rate limiting this IP.');
-          console.log('💡 Tip: Consider using a proper search API or implementing a proxy rotation system.');
-          throw error;
-        }
-      }
-    }
-  }
-
-  /**
-   * Search for adverse media using DuckDuckGo and analyze with Claude
-   * @param companyName - Company name to analyze
+   * Search for adverse media in every configured language and analyze with Claude.
+   * Results are deduplicated, and articles about a different entity with a similar name are discarded before analysis.
+   * @param entity - Company to screen, or just its name
+   * @param provider - Search backend, by default the one selected by ADVERSE_MEDIA_PROVIDER
    * @returns Analysis summary and URLs
    */
-  public static async searchAdverseMedia(companyName: string): Promise<AdverseMediaSearchResult> {
+  public static async searchAdverseMedia(
+    entity: MediaEntity | string,
+    provider: MediaSearchProvider | null = getMediaSearchProvider()
+  ): Promise<AdverseMediaSearchResult> {
+    const target: MediaEntity = typeof entity === 'string' ? { name: entity } : entity;
     try {
-      console.log(`Searching adverse media for ${companyName}`);
+      if (!provider) {
+        throw new Error('Adverse media search is disabled');
+      }
+      console.log(`Searching adverse media for ${target.name} via ${provider.name}`);
+
+      // One query per language, with the name spellings and financial crime terms of that language
+      const queries = buildMediaQueries(target.name, this.LANGUAGES);
+      // Nothing searched is not a clear result
+      if (queries.length === 0) {
+        throw new Error(this.LANGUAGES.length === 0
+          ? 'No supported ADVERSE_MEDIA_LANGUAGES configured'
+          : `No search name could be built from "${target.name}"`);
+      }
+      const found: MediaArticle[] = [];
+      const failures: string[] = [];
+      for (const { language, query } of queries) {
+        try {
+          found.push(...await provider.search(query, { language, limit: this.RESULTS_PER_QUERY }));
+        } catch (error) {
+          failures.push(`${language}: ${describeError(error)}`);
+        }
+      }
+      if (failures.length === queries.length) {
+        throw new Error(`All searches failed (${failures.join('; ')})`);
+      }
+      // Clear only when every language was searched
+      const error = failures.length > 0 ? `Some searches failed (${failures.join('; ')})` : null;
+      const noHitStatus: CheckStatus = error ? 'unavailable' : 'clear';
 
-      // Construct search query with financial crime terms
-      const searchQuery = `"${companyName}" ("fraud" OR "money laundering" OR "sanction")`;
-      
-      // Perform DuckDuckGo search with rate limiting and retry
-      const searchResults = await this.performSearch(searchQuery);
+      const { kept, discarded } = disambiguateArticles(dedupeArticles(found), target);
+      if (discarded.length > 0) {
+        console.log(`Discarded ${discarded.length} articles about other entities`);
+      }
+      const analyzed = kept.slice(0, this.MAX_ARTICLES);
+      const matches = analyzed.map(({ article, match, reason }) => ({ url: article.url, match, reason }));
 
-      // Extract top 5 results with title and snippet
-      const top5Results = searchResults.results.slice(0, 5);
-      
-      if (top5Results.length === 0) {
+      if (analyzed.length === 0) {
         return {
+          status: noHitStatus,
+          error,
           summary: 'No adverse media found',
           urls: [],
           risk_score: 0,
           negative_mentions: 0,
-          adverse_findings: false
+          adverse_findings: false,
+          findings: [],
+          matches,
+          discarded
         };
       }
 
-      // Prepare snippets for AI analysis
-      const snippets = top5Results.map((result: any, index: number) => 
-        `${index + 1}. Title: ${result.title}\n   Snippet: ${result.description}`
-      ).join('\n\n');
+      const analysis = await this.analyze(target, analyzed.map(({ article }) => article));
+      const negativeMentions = new Set(analysis.findings.map((finding) => finding.article)).size;
+
+      return {
+        status: negativeMentions > 0 ? 'hit' : noHitStatus,
+        error,
+        summary: analysis.summary,
+        urls: analyzed.map(({ article }) => article.url),
+        risk_score: analysis.risk_score,
+        negative_mentions: negativeMentions,
+        adverse_findings: negativeMentions > 0,
+        findings: analysis.findings,
+        matches,
+        discarded
+      };
+
+    } catch (error) {
+      console.error('Adverse media search failed:', error);
+      return {
+        status: 'unavailable',
+        error: describeError(error),
+        summary: 'Search failed - manual review recommended',
+        urls: [],
+        risk_score: 50,
+        negative_mentions: 0,
+        adverse_findings: false,
+        findings: [],
+        matches: [],
+        discarded: []
+      };
+    }
+  }
 
-      // Extract URLs
-      const urls = top5Results.map((result: any) => result.url);
+  /**
+   * Have Claude classify the articles through a forced tool call, validating its answer against the schema.
+   * An invalid answer is returned to the model with the validation errors, up to MAX_REPAIR_ATTEMPTS times.
+   * @throws Error if no valid analysis was produced
+   */
+  private static async analyze(entity: MediaEntity, articles: AnalyzedArticle[]): Promise<AdverseMediaAnalysis> {
+    const snippets = articles.map((result, index) =>
+      `${index + 1}. Title: ${result.title}\n   Snippet: ${result.snippet}`
+    ).join('\n\n');
 
-      // Send to Claude for structured JSON analysis
-      const prompt = `Analyze these search snippets for the company '${companyName}'. 
+    const details = [
+      entity.registration_number && `registration number ${entity.registration_number}`,
+      entity.city && `based in ${entity.city}`,
+    ].filter(Boolean).join(', ');
 
-You must respond with ONLY a JSON object in this exact format:
-{
-  "summary": "Your analysis summary in 1-3 sentences",
-  "risk_score": 0-100,
-  "negative_mentions": number_of_actual_negative_findings,
-  "adverse_findings": true_or_false
-}
+    const prompt = `Analyze these search results for the company '${entity.name}'${details ? ` (${details})` : ''} and record the analysis with the ${ANALYSIS_TOOL_NAME} tool.
 
 Guidelines:
+- Report a finding only for results with actual adverse content about ${entity.name} itself: fraud, aml (money laundering), sanctions_evasion or corruption
+- Results may be in Latvian, Russian or English; ignore results about a different company with a similar name
+- quote must be copied verbatim from that result's title or snippet, in its original language
 - risk_score: 0-20 (low risk), 21-50 (medium), 51-80 (high), 81-100 (critical)
-- negative_mentions: Count only results with actual adverse content about ${companyName}
-- adverse_findings: true if any real financial crime concerns found, false otherwise
-- If results look normal/irrelevant, set adverse_findings to false and risk_score to 0-20
+- If results look normal/irrelevant, report no findings and a risk_score of 0-20
 
 Search Results:
 ${snippets}`;
 
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      });
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
 
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-      
-      try {
-        // Parse Claude's JSON response
-        const analysis: ClaudeAnalysisResponse = JSON.parse(responseText);
-        
-        return {
-          summary: analysis.summary,
-          urls: urls,
-          risk_score: analysis.risk_score,
-          negative_mentions: analysis.negative_mentions,
-          adverse_findings: analysis.adverse_findings
-        };
-      } catch (parseError) {
-        console.error('Failed to parse Claude response as JSON:', parseError);
-        console.log('Raw response:', responseText);
-        
-        // Fallback to manual analysis
-        return {
-          summary: responseText.includes('No adverse media found') ? 'No adverse media found' : 'Analysis completed - manual review recommended',
-          urls: urls,
-          risk_score: responseText.includes('No adverse media found') ? 5 : 30,
-          negative_mentions: responseText.includes('No adverse media found') ? 0 : urls.length,
-          adverse_findings: !responseText.includes('No adverse media found')
-        };
+    for (let attempt = 0; ; attempt++) {
+      const request = {
+        model: this.MODEL,
+        max_tokens: 2000,
+        tools: [ANALYSIS_TOOL],
+        tool_choice: { type: 'tool' as const, name: ANALYSIS_TOOL_NAME },
+        messages: [...messages]
+      };
+      const message = await getRateLimiter('anthropic').schedule(() =>
+        captureEvidence('anthropic', attempt === 0 ? 'analyze' : 'analyze_repair', request, () =>
+          this.anthropic.messages.create(request)
+        )
+      );
+
+      const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+      const validation: AnalysisValidation = toolUse
+        ? validateAnalysis(toolUse.input, articles)
+        : { valid: false, errors: [`Answer must be a call to the ${ANALYSIS_TOOL_NAME} tool`] };
+
+      if (validation.valid) {
+        return validation.value;
       }
 
-    } catch (error) {
-      console.error('Adverse media search failed:', error);
-      return {
-        summary: 'Search failed - manual review recommended',
-        urls: [],
-        risk_score: 50,
-        negative_mentions: 0,
-        adverse_findings: false
-      };
+      console.warn(`⚠️ Adverse media analysis failed validation (attempt ${attempt + 1}): ${validation.errors.join('; ')}`);
+      if (!toolUse || attempt >= this.MAX_REPAIR_ATTEMPTS) {
+        throw new Error(`Analysis failed validation: ${validation.errors.join('; ')}`);
+      }
+
+      messages.push(
+        { role: 'assistant', content: message.content },
+        {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `The analysis is invalid:\n${validation.errors.map((error) => `- ${error}`).join('\n')}\nCall ${ANALYSIS_TOOL_NAME} again with a corrected analysis.`
+          }]
+        }
+      );
     }
   }
 
@@ -258,6 +321,122 @@ ${snippets}`;
     }
   }
 
+  /**
+   * Whether profiles get an adverse media stage, i.e. a search provider is configured
+   */
+  public static isEnabled(): boolean {
+    try {
+      return getMediaSearchProvider() !== null;
+    } catch (error) {
+      console.error('Adverse media disabled:', (error as Error).message);
+      return false;
+    }
+  }
+
+  /**
+   * Background stage run after a risk profile is saved: screen adverse media, then write the outcome
+   * into the profile's adverse_media_* columns and profile_data, with the provider calls as evidence.
+   * Findings are added to the profile's risk indicators, and its score and level are updated.
+   * Never throws; failures are logged, and a profile that could not be updated is marked unavailable
+   * so it does not stay pending.
+   * @param entity - The company with its register details, used to discard articles about other entities
+   * @param profileData - The saved profile, updated with the adverse media fields and rescored
+   * @param forceRefresh - Search again even when a fresh cached result exists
+   */
+  public static async enrichProfile(
+    profileId: string,
+    registrationNumber: string,
+    entity: MediaEntity,
+    profileData: StoredRiskProfile,
+    forceRefresh: boolean = false
+  ): Promise<void> {
+    let stored = false;
+    try {
+      const evidence = new EvidenceLog();
+      const { value: result, provenance } = await withEvidenceLog(evidence, () => cachedCall(
+        'adverse_media',
+        cacheKey(normalizeCompanyName(entity.name), entity.registration_number),
+        () => this.searchAdverseMedia(entity),
+        { forceRefresh, cacheable: (searchResult) => searchResult.status !== 'unavailable' }
+      ));
+      const unavailable = result.status === 'unavailable';
+      const assessment = RiskScoringService.addAdverseMedia({
+        level: profileData.overall_risk_level,
+        score: profileData.risk_score,
+        indicators: profileData.risk_indicators,
+      }, result.findings);
+
+      await this.updateProfile(profileId, {
+        risk_level: assessment.level,
+        // A failed check has no score rather than a made-up one
+        adverse_media_risk_score: unavailable ? null : result.risk_score,
+        adverse_media_summary: result.summary,
+        adverse_media_mentions: unavailable ? null : result.negative_mentions,
+        adverse_media_links: result.urls,
+        profile_data: toJson({
+          ...profileData,
+          overall_risk_level: assessment.level,
+          risk_score: assessment.score,
+          risk_indicators: assessment.indicators,
+          adverse_media_status: result.status,
+          adverse_media_error: result.error,
+          adverse_media_risk_score: result.risk_score,
+          adverse_media_summary: result.summary,
+          adverse_media_mentions: result.negative_mentions,
+          adverse_media_links: result.urls,
+          adverse_media_findings: result.findings,
+          adverse_media_matches: result.matches,
+          adverse_media_discarded: result.discarded,
+          cache_provenance: { ...profileData.cache_provenance, adverse_media: provenance },
+        }),
+      });
+      stored = true;
+
+      await new EvidenceService().save(profileId, registrationNumber, evidence.records);
+      console.log(`✓ Adverse media stage ${result.status} for profile ${profileId}`);
+    } catch (error) {
+      console.error(`Adverse media stage failed for profile ${profileId}:`, error);
+      if (!stored) {
+        await this.markUnavailable(profileId, profileData, describeError(error));
+      }
+    }
+  }
+
+  /**
+   * Best-effort update of a profile whose adverse media stage failed, so it does not stay pending
+   */
+  private static async markUnavailable(profileId: string, profileData: object, reason: string): Promise<void> {
+    try {
+      await this.updateProfile(profileId, {
+        adverse_media_risk_score: null,
+        adverse_media_summary: 'Adverse media check failed - manual review recommended',
+        adverse_media_mentions: null,
+        profile_data: toJson({
+          ...profileData,
+          adverse_media_status: 'unavailable',
+          adverse_media_error: reason,
+          adverse_media_summary: 'Adverse media check failed - manual review recommended',
+        }),
+      });
+    } catch (error) {
+      console.error(`Could not mark adverse media unavailable for profile ${profileId}:`, error);
+    }
+  }
+
+  private static async updateProfile(profileId: string, update: TablesUpdate<'company_risk_profiles'>): Promise<void> {
+    const supabaseService = new SupabaseService();
+    await supabaseService.signIn();
+    const { error } = await supabaseService.getClient()
+      .from('company_risk_profiles')
+      .update(update)
+      .eq('id', profileId);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+  }
+
   /**
    * Calculate overall risk level based on risk score
    * @param riskScore - Risk score from 0-100
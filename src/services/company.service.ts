@@ -1,5 +1,6 @@
 import { SupabaseService } from './supabase';
 import type { Tables } from '../types';
+import { normalizeRegistrationNumber } from '../utils/registrationNumber';
 
 export class CompanyService {
   private supabaseService: SupabaseService;
@@ -9,7 +10,8 @@ export class CompanyService {
     this.supabaseService.signIn();
   }
 
-  async getCompanyByRegistrationNumber(registrationNumber: string): Promise<Tables<'kyb_submissions'>> {
+  async getCompanyByRegistrationNumber(rawRegistrationNumber: string): Promise<Tables<'kyb_submissions'>> {
+    const registrationNumber = normalizeRegistrationNumber(rawRegistrationNumber);
     console.log('registrationNumber', registrationNumber)
     const { data, error } = await this.supabaseService.getClient()
       .from('kyb_submissions')
@@ -0,0 +1,40 @@
+import { CompanyNameIndex } from './companyNameIndex';
+
+describe('CompanyNameIndex', () => {
+  const index = new CompanyNameIndex();
+  index.add('40003032949', 'SIA "Baltijas Nafta"', true);
+  index.add('40003000001', 'SIA "Baltijas Nafta Tirdzniecība"', true);
+  index.add('40003000002', 'AS "Nafta Baltijas"', false);
+  index.add('40003000003', 'SIA "Baltijas Nafta"', false);
+  index.add('40003000004', 'SIA "Rīgas Piens"', true);
+  index.add('40003000005', '" - "', true);
+  index.build();
+
+  it('skips names with nothing to index', () => {
+    expect(index.size).toBe(5);
+  });
+
+  it('ranks an exact name over a name prefix over other matches, and active companies first', () => {
+    expect(index.search('SIA Baltijas Nafta', 10)).toEqual([
+      { regcode: '40003032949', score: 105 },
+      { regcode: '40003000003', score: 100 },
+      { regcode: '40003000001', score: 82.4 },
+      { regcode: '40003000002', score: 60 },
+    ]);
+  });
+
+  it('matches every query token as a prefix, ignoring case and diacritics', () => {
+    expect(index.search('balt naf', 10).map((hit) => hit.regcode))
+      .toEqual(['40003032949', '40003000001', '40003000002', '40003000003']);
+    expect(index.search('RIGAS PIE', 10)).toEqual([{ regcode: '40003000004', score: 84.6 }]);
+  });
+
+  it('requires every query token to match', () => {
+    expect(index.search('Baltijas Piens', 10)).toEqual([]);
+    expect(index.search('Ventspils', 10)).toEqual([]);
+  });
+
+  it('returns at most the limit', () => {
+    expect(index.search('Nafta', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,135 @@
+import { normalizeCompanyName } from '../utils/companyName';
+
+export interface NameSearchHit {
+  regcode: string;
+  score: number;
+}
+
+/**
+ * In-memory inverted index over normalized company names.
+ * Every query token is matched as a prefix, so partial input works for type-ahead.
+ */
+export class CompanyNameIndex {
+  private regcodes: string[] = [];
+  private names: string[] = [];
+  private active: boolean[] = [];
+  private postings: Map<string, number[]> = new Map();
+  private sortedTokens: string[] = [];
+
+  /**
+   * Add a company to the index. Call build() once all companies are added.
+   */
+  public add(regcode: string, name: string, isActive: boolean): void {
+    const normalized = normalizeCompanyName(name);
+    if (!normalized) return;
+
+    const id = this.regcodes.length;
+    this.regcodes.push(regcode);
+    this.names.push(normalized);
+    this.active.push(isActive);
+
+    for (const token of new Set(normalized.split(' '))) {
+      const ids = this.postings.get(token);
+      if (ids) {
+        ids.push(id);
+      } else {
+        this.postings.set(token, [id]);
+      }
+    }
+  }
+
+  /**
+   * Finalize the index (sorts tokens for prefix lookups)
+   */
+  public build(): void {
+    this.sortedTokens = Array.from(this.postings.keys()).sort();
+  }
+
+  public get size(): number {
+    return this.regcodes.length;
+  }
+
+  /**
+   * Search companies by name, best matches first
+   */
+  public search(query: string, limit: number): NameSearchHit[] {
+    const normalizedQuery = normalizeCompanyName(query);
+    if (!normalizedQuery) return [];
+
+    const queryTokens = normalizedQuery.split(' ');
+
+    // Seed candidates from the most selective token, then filter by the rest
+    const tokenRanges = queryTokens.map((token) => this.prefixRange(token));
+    tokenRanges.sort((a, b) => a.count - b.count);
+    if (tokenRanges[0].count === 0) return [];
+
+    const candidates = new Set<number>();
+    for (let i = tokenRanges[0].start; i < tokenRanges[0].end; i++) {
+      for (const id of this.postings.get(this.sortedTokens[i])!) {
+        candidates.add(id);
+      }
+    }
+
+    const hits: NameSearchHit[] = [];
+    for (const id of candidates) {
+      const nameTokens = this.names[id].split(' ');
+      const matchesAll = queryTokens.every((queryToken) =>
+        nameTokens.some((nameToken) => nameToken.startsWith(queryToken))
+      );
+      if (matchesAll) {
+        hits.push({ regcode: this.regcodes[id], score: this.score(id, normalizedQuery) });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.regcode.localeCompare(b.regcode));
+    return hits.slice(0, limit);
+  }
+
+  /**
+   * Rank a candidate: exact name > name prefix > all tokens matched,
+   * with shorter names and active companies ranked higher
+   */
+  private score(id: number, normalizedQuery: string): number {
+    const name = this.names[id];
+    let score = 60;
+
+    if (name === normalizedQuery) {
+      score = 100;
+    } else if (name.startsWith(normalizedQuery)) {
+      score = 80;
+    }
+
+    score -= Math.min(10, (name.length - normalizedQuery.length) * 0.2);
+    if (this.active[id]) score += 5;
+
+    return Math.round(score * 10) / 10;
+  }
+
+  /**
+   * Find the range of sorted tokens starting with the given prefix
+   */
+  private prefixRange(prefix: string): { start: number; end: number; count: number } {
+    const start = this.lowerBound(prefix);
+    let end = start;
+    let count = 0;
+    while (end < this.sortedTokens.length && this.sortedTokens[end].startsWith(prefix)) {
+      count += this.postings.get(this.sortedTokens[end])!.length;
+      end++;
+    }
+    return { start, end, count };
+  }
+
+  private lowerBound(value: string): number {
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTokens[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,67 @@
+import type { AggregateData, RegistrySearchResult } from './csvData.service';
+import { CsvDataService } from './csvData.service';
+import type { DatasetVersion } from './datasetSource.service';
+import { EstonianRegistryService } from './estonianRegistry.service';
+import { LithuanianRegistryService } from './lithuanianRegistry.service';
+import type { RegistrationNumberResult } from '../utils/registrationNumber';
+
+/**
+ * Business register of one country, loaded in memory from its open-data files.
+ * Risk profiles pick the registry by the submission's country of registration.
+ */
+export interface CountryRegistry {
+  /** ISO 3166 alpha-2 code of the country the registry covers */
+  readonly countryCode: string;
+  init(): Promise<void>;
+  reload(): Promise<void>;
+  startScheduledRefresh(intervalMs: number): void;
+  isReady(): boolean;
+  /** Normalize and validate a registration number in this country's format */
+  validateRegistrationNumber(input: unknown): RegistrationNumberResult;
+  /** @throws Error if the registration number is not in the registry */
+  getAggregateData(rawRegNumber: string): AggregateData;
+  searchByName(query: string, limit?: number): RegistrySearchResult[];
+  findByRegistrationNumber(regNumber: string): RegistrySearchResult | null;
+  /** VAT number to check in VIES, or null when the company's VAT number is not known */
+  getVatNumber(regNumber: string, data: AggregateData | null): string | null;
+  /** Version of each loaded dataset, keyed by dataset key */
+  getDatasetVersions(): Record<string, DatasetVersion>;
+  getStats(): Record<string, unknown>;
+}
+
+const REGISTRIES: Record<string, () => CountryRegistry> = {
+  LV: () => CsvDataService.getInstance(),
+  EE: () => EstonianRegistryService.getInstance(),
+  LT: () => LithuanianRegistryService.getInstance(),
+};
+
+/**
+ * Countries whose registries are loaded, from REGISTRY_COUNTRIES (comma-separated, default LV).
+ * Latvia is always included.
+ */
+export function getEnabledRegistryCountries(): string[] {
+  const configured = (process.env.REGISTRY_COUNTRIES || 'LV')
+    .split(',')
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => code in REGISTRIES);
+
+  return Array.from(new Set(['LV', ...configured]));
+}
+
+/**
+ * Registry for a country, or null if there is no plug-in for it or it is not enabled
+ */
+export function getCountryRegistry(countryCode: string): CountryRegistry | null {
+  const code = countryCode.toUpperCase();
+  return getEnabledRegistryCountries().includes(code) ? REGISTRIES[code]() : null;
+}
+
+/**
+ * Validate a registration number in the format of any enabled registry, Latvian first.
+ * For lookups that are not tied to a submission's country.
+ * @returns The first valid result, or the Latvian reason when no format accepts it
+ */
+export function validateAnyRegistrationNumber(input: unknown): RegistrationNumberResult {
+  const results = getEnabledRegistryCountries().map((code) => REGISTRIES[code]().validateRegistrationNumber(input));
+  return results.find((result) => result.valid) ?? results[0];
+}
@@ -0,0 +1,195 @@
+import path from 'path';
+import { Readable } from 'stream';
+import type { CsvDataService } from './csvData.service';
+import type { DatasetSource } from './datasetSource.service';
+
+const FIXTURES = path.join(__dirname, '../../test/fixtures/lv');
+
+/**
+ * A fresh service reading the LV fixtures, with its module-level settings read from env
+ */
+function loadService(env: Record<string, string> = {}): CsvDataService {
+  const saved = process.env;
+  process.env = { ...saved, DATASET_SOURCE: 'local', DATASET_LOCAL_DIR: FIXTURES, ...env };
+  let service!: CsvDataService;
+  jest.isolateModules(() => {
+    service = require('./csvData.service').CsvDataService.getInstance();
+  });
+  process.env = saved;
+  return service;
+}
+
+// A dataset served from memory instead of the fixture directory
+const memorySource = (csv: string): DatasetSource => ({
+  location: 'memory',
+  openStream: async () => ({ stream: Readable.from([csv]), modifiedAt: null }),
+});
+
+describe('CsvDataService financial statements', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the latest filing of an amended year, newest year first', async () => {
+    const service = loadService();
+    await service.init();
+
+    const statements = service.getAggregateData('40003032949').financial_statements;
+    expect(statements.map((statement) => statement.year)).toEqual([2025, 2024]);
+    expect(statements[1]).toEqual({
+      year: 2024,
+      year_ended_on: '2024-12-31',
+      employees: 14,
+      revenue: 1250000,
+      net_income: 95000,
+      equity: 130000,
+      total_assets: 520000,
+    });
+  });
+
+  it('scales statements rounded to thousands', async () => {
+    const service = loadService();
+    await service.init();
+
+    expect(service.getAggregateData('40003032949').financial_statements[0]).toMatchObject({
+      employees: 15,
+      revenue: 1400000,
+      net_income: 110000,
+      equity: 150000,
+      total_assets: 610500,
+    });
+  });
+
+  it('converts statements filed in lats to euros, for years still kept', async () => {
+    const recent = loadService();
+    await recent.init();
+    expect(recent.getAggregateData('40103211998').financial_statements.map((statement) => statement.year)).toEqual([2024]);
+
+    const all = loadService({ FINANCIAL_STATEMENTS_YEARS: '15' });
+    await all.init();
+    expect(all.getAggregateData('40103211998').financial_statements[1]).toMatchObject({
+      year: 2013,
+      revenue: 200000,
+      net_income: 10000,
+      equity: 50000,
+      total_assets: 100000,
+    });
+  });
+});
+
+describe('CsvDataService insolvency proceedings', () => {
+  let service: CsvDataService;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = loadService();
+    await service.init();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('groups every proceeding of a debtor, newest first', () => {
+    const data = service.getAggregateData('40203045678');
+
+    expect(data.insolvency_proceedings.map((proceeding) => [proceeding.proceeding_started_on, proceeding.is_open])).toEqual([
+      ['2024-03-04', true],
+      ['2021-07-19', false],
+      ['2019-02-11', false],
+    ]);
+    expect(service.getStats().insolvencyProceedingCount).toBe(4);
+  });
+
+  it('reports the open proceeding in the headline fields', () => {
+    expect(service.getAggregateData('40203045678')).toMatchObject({
+      has_insolvency_history: true,
+      has_open_insolvency: true,
+      proceeding_resolution_name: 'Pasludināts maksātnespējas process',
+      proceeding_started_on: '2024-03-04',
+      proceeding_ended_on: null,
+    });
+  });
+
+  it('reports the latest closed proceeding when none is open', () => {
+    expect(service.getAggregateData('40103211998')).toMatchObject({
+      has_insolvency_history: true,
+      has_open_insolvency: false,
+      proceeding_started_on: '2015-05-20',
+      proceeding_ended_on: '2016-08-01',
+    });
+  });
+
+  it('has no insolvency fields for a company without proceedings', () => {
+    expect(service.getAggregateData('40003032949')).toMatchObject({
+      insolvency_proceedings: [],
+      has_insolvency_history: false,
+      has_open_insolvency: false,
+      proceeding_started_on: null,
+    });
+  });
+});
+
+describe('CsvDataService reload', () => {
+  let service: CsvDataService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    service = loadService();
+    await service.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shares one in-flight reload between concurrent callers', async () => {
+    const openRegistry = jest.spyOn(service['sources'].registry, 'openStream');
+
+    const first = service.reload();
+    const second = service.reload();
+    expect(second).toBe(first);
+    expect(service.getStats().isReloading).toBe(true);
+    await Promise.all([first, second]);
+
+    expect(openRegistry).toHaveBeenCalledTimes(1);
+    expect(service.getStats().isReloading).toBe(false);
+  });
+
+  it('serves the previous snapshot until the new one is complete, then swaps it in', async () => {
+    service['sources'].registry = memorySource(
+      'regcode;name;address;registered;terminated;type_text;type;city\n' +
+      '40003032949;"SIA ""Baltijas Nafta Grupa""";Rīga, Brīvības iela 1;2010-04-12;;Sabiedrība ar ierobežotu atbildību;SIA;Rīga\n'
+    );
+
+    const reloading = service.reload();
+    expect(service.getAggregateData('40003032949').name).toBe('SIA "Baltijas Nafta"');
+    expect(service.searchByName('Daugavas Koks', 5)).toHaveLength(1);
+    await reloading;
+
+    expect(service.getAggregateData('40003032949').name).toBe('SIA "Baltijas Nafta Grupa"');
+    expect(() => service.getAggregateData('40103211998')).toThrow('not found in registry');
+    expect(service.searchByName('Daugavas Koks', 5)).toEqual([]);
+  });
+
+  it('keeps the previous snapshot when a reload fails', async () => {
+    const loadedAt = service.getStats().loadedAt;
+    service['sources'].registry = memorySource('regcode;name\n');
+
+    await expect(service.reload()).rejects.toThrow('registry.csv produced no entries');
+
+    expect(service.getAggregateData('40103211998').name).toBe('SIA "Daugavas Koks"');
+    expect(service.getStats()).toMatchObject({
+      registryCount: 3,
+      loadedAt,
+      lastReloadError: 'registry.csv produced no entries',
+    });
+  });
+});
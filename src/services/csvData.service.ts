@@ -1,6 +1,10 @@
-import { parse } from 'csv-parse';
-import { SupabaseService } from './supabase';
-import { Readable } from 'stream';
+import { Options as CsvParseOptions } from 'csv-parse';
+import { CompanyNameIndex } from './companyNameIndex';
+import type { CountryRegistry } from './countryRegistry.service';
+import { createDatasetSource, DatasetLoadStats, DatasetSource, DatasetVersion, streamCsv, toDatasetVersion } from './datasetSource.service';
+import { StringPool } from '../utils/stringPool';
+import { normalizeRegistrationNumber, RegistrationNumberResult, validateRegistrationNumber } from '../utils/registrationNumber';
+import { buildTaxRating, parseTaxRatingDate, TaxRating } from '../utils/taxRating';
 
 // Define interfaces for each CSV data type
 export interface RegistryData {
@@ -19,6 +23,28 @@ export interface RegistryData {
   city: string;
 }
 
+/**
+ * Compact in-memory form of a registry row.
+ * Dates are packed into yyyymmdd numbers and low-cardinality fields are interned,
+ * which keeps the full registry well within the memory budget.
+ */
+interface RegistryRecord {
+  name: string;
+  address: string;
+  registered: PackedDate;
+  terminated: PackedDate;
+  type_text: string;
+  sepa: string;
+  regtype_text: string;
+  type: string;
+  closed: string;
+  region: string;
+  city: string;
+}
+
+/** yyyymmdd as a number, 0 when empty, or the raw string if it is not an ISO date */
+type PackedDate = number | string;
+
 export interface TaxData {
   rating: string;
   explanation: string;
@@ -26,15 +52,74 @@ export interface TaxData {
   rating_updated_date: string;
 }
 
-export interface InsolvencyData {
+/**
+ * One insolvency proceeding from insolvency.csv.
+ * A debtor can have several; all of them are kept.
+ */
+export interface InsolvencyProceeding {
   proceeding_resolution_name: string;
-  has_insolvency: boolean;
   // Priority 1 KYC/AML fields
   proceeding_started_on: string;
   proceeding_ended_on: string;
   proceeding_form: string;
   proceeding_type: string;
   court_name: string;
+  /** True while the proceeding has no end date */
+  is_open: boolean;
+}
+
+/**
+ * Beneficial owner from the Register of Enterprises beneficial_owners.csv
+ */
+export interface BeneficialOwner {
+  name: string;
+  forename: string;
+  surname: string;
+  birth_date: string;
+  /** ISO 3166 alpha-2 country code */
+  nationality: string;
+  /** ISO 3166 alpha-2 country code */
+  residence_country: string;
+  registered_on: string;
+}
+
+/**
+ * Officer (board member, procurator, liquidator, ...) from the Register of Enterprises officers.csv
+ */
+export interface Officer {
+  name: string;
+  /** Position code, e.g. BOARD_MEMBER, CHAIR_OF_BOARD, PROCURATOR, LIQUIDATOR */
+  role: string;
+  governing_body: string;
+  /** NATURAL_PERSON or LEGAL_ENTITY */
+  entity_type: string;
+  /** Registration number when the officer is itself a legal entity */
+  legal_entity_registration_number: string;
+  birth_date: string;
+  appointed_on: string;
+  is_liquidator: boolean;
+}
+
+/**
+ * Headline figures from one annual financial statement, in EUR
+ */
+export interface FinancialYear {
+  year: number;
+  year_ended_on: string;
+  employees: number | null;
+  /** Net turnover */
+  revenue: number | null;
+  net_income: number | null;
+  equity: number | null;
+  total_assets: number | null;
+}
+
+export interface RegistrySearchResult {
+  registration_number: string;
+  name: string;
+  address: string;
+  is_active: boolean;
+  score: number;
 }
 
 export interface AggregateData {
@@ -55,30 +140,115 @@ export interface AggregateData {
   // Tax data (optional)
   rating: string | null;
   explanation: string | null;
-  // Tax Priority 1 KYC/AML field
+  // Tax Priority 1 KYC/AML field (ISO date)
   rating_updated_date: string | null;
-  // Insolvency data (optional)
+  /** Parsed rating with grade, meaning and staleness; null if the company has no rating row */
+  tax_rating: TaxRating | null;
+  // Insolvency data: every proceeding, newest first
+  insolvency_proceedings: InsolvencyProceeding[];
+  /** Company has ever been subject to an insolvency proceeding */
+  has_insolvency_history: boolean;
+  /** Company is currently in a proceeding without an end date */
+  has_open_insolvency: boolean;
+  // Insolvency Priority 1 KYC/AML fields, taken from the open proceeding,
+  // or the most recent one if none is open
   proceeding_resolution_name: string | null;
-  has_insolvency: boolean;
-  // Insolvency Priority 1 KYC/AML fields
   proceeding_started_on: string | null;
   proceeding_ended_on: string | null;
   proceeding_form: string | null;
   proceeding_type: string | null;
   court_name: string | null;
+  // Beneficial owners (empty if none registered or dataset unavailable)
+  beneficial_owners: BeneficialOwner[];
+  /** False when beneficial_owners.csv could not be loaded, so an empty list means "unknown" */
+  beneficial_owners_available: boolean;
+  // Officers: board members, procurators, liquidators (empty if dataset unavailable)
+  officers: Officer[];
+  /** False when officers.csv could not be loaded */
+  officers_available: boolean;
+  // Annual financial statements, newest year first
+  financial_statements: FinancialYear[];
+  /** False when the financial statement datasets could not be loaded */
+  financial_statements_available: boolean;
+  /** VAT number as published by the registry; null when the registry does not publish one */
+  vat_number: string | null;
 }
 
-export class CsvDataService {
+type DatasetKey =
+  | 'registry'
+  | 'tax'
+  | 'insolvency'
+  | 'beneficial_owners'
+  | 'officers'
+  | 'financial_statements'
+  | 'balance_sheets'
+  | 'income_statements';
+
+const DATASET_FILES: Record<DatasetKey, string> = {
+  registry: 'registry.csv',
+  tax: 'taxpayer_rating.csv',
+  insolvency: 'insolvency.csv',
+  beneficial_owners: 'beneficial_owners.csv',
+  officers: 'officers.csv',
+  financial_statements: 'financial_statements.csv',
+  balance_sheets: 'balance_sheets.csv',
+  income_statements: 'income_statements.csv',
+};
+
+// Datasets loaded together with another one, and carried over or dropped with it
+const COMPANION_DATASETS: Partial<Record<DatasetKey, DatasetKey[]>> = {
+  financial_statements: ['balance_sheets', 'income_statements'],
+};
+
+// Only keep statements for this many past years to bound memory
+const FINANCIAL_YEARS_TO_KEEP = Number(process.env.FINANCIAL_STATEMENTS_YEARS ?? 5);
+
+// Tax ratings updated longer ago than this are marked stale
+const TAX_RATING_MAX_AGE_DAYS = Number(process.env.TAX_RATING_MAX_AGE_DAYS ?? 90);
+
+// Fixed euro conversion rate for statements filed in lats before 2014
+const LVL_TO_EUR = 1 / 0.702804;
+
+// Matches liquidator positions and governing bodies (English codes or Latvian text)
+const LIQUIDATOR_PATTERN = /liquidat|likvid/i;
+
+/**
+ * One complete, immutable set of loaded datasets.
+ * Reloads build a new snapshot and swap it in as a whole.
+ */
+interface DataSnapshot {
+  registryMap: Map<string, RegistryRecord>;
+  taxMap: Map<string, TaxData>;
+  insolvencyMap: Map<string, InsolvencyProceeding[]>;
+  beneficialOwnerMap: Map<string, BeneficialOwner[]>;
+  officerMap: Map<string, Officer[]>;
+  financialMap: Map<string, FinancialYear[]>;
+  nameIndex: CompanyNameIndex;
+  loadStats: Partial<Record<DatasetKey, DatasetLoadStats>>;
+  /** Optional datasets that failed to load and have no earlier data to fall back on */
+  unavailableDatasets: Set<DatasetKey>;
+  loadedAt: Date;
+}
+
+/**
+ * Country registry for Latvia: Register of Enterprises open data plus the
+ * State Revenue Service tax ratings, Insolvency Register and annual reports
+ */
+export class CsvDataService implements CountryRegistry {
+  public readonly countryCode = 'LV';
   private static instance: CsvDataService | null = null;
-  private registryMap: Map<string, RegistryData> = new Map();
-  private taxMap: Map<string, TaxData> = new Map();
-  private insolvencyMap: Map<string, InsolvencyData> = new Map();
-  private isInitialized: boolean = false;
-  private supabaseService: SupabaseService;
+  private snapshot: DataSnapshot | null = null;
+  private reloadPromise: Promise<void> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private lastReloadError: string | null = null;
+  private lastReloadAttemptAt: Date | null = null;
+  private sources: Record<DatasetKey, DatasetSource>;
 
   private constructor() {
     // Private constructor for Singleton pattern
-    this.supabaseService = new SupabaseService();
+    this.sources = Object.fromEntries(
+      (Object.keys(DATASET_FILES) as DatasetKey[]).map((key) => [key, createDatasetSource(key, DATASET_FILES[key])])
+    ) as Record<DatasetKey, DatasetSource>;
   }
 
   /**
@@ -92,28 +262,17 @@ export class CsvDataService {
   }
 
   /**
-   * Initialize the service by loading all CSV files from Supabase bucket
+   * Initialize the service by loading all CSV files from their configured sources
    * This must be called when the server starts
    */
   public async init(): Promise<void> {
-    if (this.isInitialized) {
+    if (this.snapshot) {
       console.log('CsvDataService already initialized');
       return;
     }
     try {
-      // Sign in to Supabase
-      await this.supabaseService.signIn();
-      
-      await Promise.all([
-        this.loadRegistryData(),
-        this.loadTaxData(),
-        this.loadInsolvencyData(),
-      ]);
-      this.isInitialized = true;
+      await this.reload();
       console.log('CsvDataService initialized successfully');
-      console.log(`Loaded ${this.registryMap.size} registry entries`);
-      console.log(`Loaded ${this.taxMap.size} tax entries`);
-      console.log(`Loaded ${this.insolvencyMap.size} insolvency entries`);
     } catch (error) {
       console.error('Failed to initialize CsvDataService:', error);
       throw error;
@@ -121,213 +280,406 @@ export class CsvDataService {
   }
 
   /**
-   * Ensure the service is initialized before use
+   * Reload all CSV files into a fresh snapshot and swap it in atomically.
+   * Lookups keep using the current snapshot while the new one is built.
+   * If loading fails, the previous snapshot stays in place and the error is rethrown.
+   * Concurrent calls share the same in-flight reload.
    */
-  private ensureInitialized(): void {
-    if (!this.isInitialized) {
-      throw new Error('CsvDataService not initialized. Call init() first.');
+  public reload(): Promise<void> {
+    if (!this.reloadPromise) {
+      this.reloadPromise = this.buildAndSwapSnapshot().finally(() => {
+        this.reloadPromise = null;
+      });
+    }
+    return this.reloadPromise;
+  }
+
+  private async buildAndSwapSnapshot(): Promise<void> {
+    this.lastReloadAttemptAt = new Date();
+    try {
+      const next: DataSnapshot = {
+        registryMap: new Map(),
+        taxMap: new Map(),
+        insolvencyMap: new Map(),
+        beneficialOwnerMap: new Map(),
+        officerMap: new Map(),
+        financialMap: new Map(),
+        nameIndex: new CompanyNameIndex(),
+        loadStats: {},
+        unavailableDatasets: new Set(),
+        loadedAt: new Date(),
+      };
+
+      // Load one dataset at a time to keep peak memory low
+      const pool = new StringPool();
+      next.loadStats.registry = await this.loadRegistryData(next.registryMap, pool);
+      next.loadStats.tax = await this.loadTaxData(next.taxMap, pool);
+      next.loadStats.insolvency = await this.loadInsolvencyData(next.insolvencyMap, pool);
+      next.beneficialOwnerMap = await this.loadOptionalDataset(
+        'beneficial_owners', next, this.snapshot?.beneficialOwnerMap,
+        (target) => this.loadBeneficialOwnerData(target, pool)
+      );
+      next.officerMap = await this.loadOptionalDataset(
+        'officers', next, this.snapshot?.officerMap,
+        (target) => this.loadOfficerData(target, pool)
+      );
+      next.financialMap = await this.loadOptionalDataset(
+        'financial_statements', next, this.snapshot?.financialMap,
+        (target) => this.loadFinancialData(target, next.loadStats)
+      );
+
+      if (next.registryMap.size === 0) {
+        throw new Error('registry.csv produced no entries');
+      }
+
+      for (const [regcode, record] of next.registryMap) {
+        next.nameIndex.add(regcode, record.name, record.terminated === 0);
+      }
+      next.nameIndex.build();
+
+      next.loadedAt = new Date();
+      this.snapshot = next;
+      this.lastReloadError = null;
+      console.log(`Loaded ${next.registryMap.size} registry entries`);
+      console.log(`Loaded ${next.taxMap.size} tax entries`);
+      console.log(`Loaded ${next.insolvencyMap.size} insolvency entries`);
+      console.log(`Loaded ${next.beneficialOwnerMap.size} beneficial owner entries`);
+      console.log(`Loaded ${next.officerMap.size} officer entries`);
+      console.log(`Loaded ${next.financialMap.size} financial statement entries`);
+    } catch (error) {
+      this.lastReloadError = (error as Error).message;
+      if (this.snapshot) {
+        console.error('CSV reload failed, keeping previous snapshot:', error);
+      }
+      throw error;
     }
   }
 
   /**
-   * Download file from Supabase bucket and return as string
+   * Load a supplementary dataset without failing the whole reload.
+   * On failure the map from the previous snapshot is reused, or the dataset is marked unavailable.
    */
-  private async downloadFileFromBucket(fileName: string): Promise<string> {
-    console.log(`Attempting to download ${fileName} from kyc-data bucket...`);
-    
-    const { data, error } = await this.supabaseService.getClient()
-      .storage
-      .from('kyc-data')
-      .download(fileName);
-
-    if (error) {
-      console.error(`Download error for ${fileName}:`, error);
-      throw new Error(`Failed to download ${fileName} from Supabase: ${JSON.stringify(error)}`);
+  private async loadOptionalDataset<V>(
+    key: DatasetKey,
+    next: DataSnapshot,
+    previous: Map<string, V> | undefined,
+    load: (target: Map<string, V>) => Promise<DatasetLoadStats>
+  ): Promise<Map<string, V>> {
+    const target = new Map<string, V>();
+    try {
+      next.loadStats[key] = await load(target);
+      return target;
+    } catch (error) {
+      console.warn(`⚠️ Optional dataset ${DATASET_FILES[key]} failed to load: ${(error as Error).message}`);
+      // Stats of the datasets loaded with it must describe the data actually served, not this failed attempt
+      const keys = [key, ...(COMPANION_DATASETS[key] || [])];
+      if (previous && this.snapshot && !this.snapshot.unavailableDatasets.has(key)) {
+        console.warn(`   Keeping previously loaded ${DATASET_FILES[key]}`);
+        for (const carried of keys) {
+          next.loadStats[carried] = this.snapshot.loadStats[carried];
+        }
+        return previous;
+      }
+      for (const dropped of keys) {
+        delete next.loadStats[dropped];
+        next.unavailableDatasets.add(dropped);
+      }
+      return target;
     }
+  }
 
-    if (!data) {
-      throw new Error(`No data received for ${fileName}`);
+  /**
+   * Periodically reload the datasets in the background.
+   * Failures are logged and the previous snapshot is kept.
+   */
+  public startScheduledRefresh(intervalMs: number): void {
+    this.stopScheduledRefresh();
+    this.refreshTimer = setInterval(() => {
+      console.log('Scheduled CSV refresh starting...');
+      this.reload().catch(() => {
+        // Already logged in buildAndSwapSnapshot
+      });
+    }, intervalMs);
+    // Do not keep the process alive just for the refresh timer
+    this.refreshTimer.unref();
+    console.log(`Scheduled CSV refresh every ${Math.round(intervalMs / 60000)} minutes`);
+  }
+
+  /**
+   * Stop the periodic reload, if running
+   */
+  public stopScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
     }
+  }
 
-    console.log(`✓ Successfully downloaded ${fileName} (${data.size} bytes)`);
-    
-    // Convert Blob to text
-    return await data.text();
+  /**
+   * Return the current snapshot, or throw if nothing has been loaded yet
+   */
+  private getSnapshot(): DataSnapshot {
+    if (!this.snapshot) {
+      throw new Error('CsvDataService not initialized. Call init() first.');
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Stream a dataset from its configured source, calling onRow for every parsed row
+   */
+  private streamDataset(
+    key: DatasetKey,
+    parseOptions: CsvParseOptions,
+    onRow: (row: any) => void
+  ): Promise<DatasetLoadStats> {
+    return streamCsv(DATASET_FILES[key], this.sources[key], parseOptions, onRow);
   }
 
   /**
-   * Load registry.csv into memory from Supabase bucket
-   * 
-   * TODO: BUcket in Supabase needs to be - this was only set for DEMO 
+   * Load registry.csv into memory from its configured source
    */
-  private async loadRegistryData(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        console.log('Downloading registry.csv from Supabase bucket...');
-        const csvContent = await this.downloadFileFromBucket('registry.csv');
-        
-        // Create a readable stream from the string
-        const stream = Readable.from([csvContent]);
-        
-        stream
-          .pipe(
-            parse({
-              columns: true,
-              delimiter: ';',
-              skip_empty_lines: true,
-              trim: true,
-            })
-          )
-          .on('data', (row: any) => {
-            const regcode = row.regcode?.trim();
-            if (regcode) {
-              const data: RegistryData = {
-                name: row.name || '',
-                address: row.address || '',
-                registered: row.registered || '',
-                type_text: row.type_text || '',
-                terminated: row.terminated || '',
-                is_active: !row.terminated || row.terminated.trim() === '',
-                // Priority 1 KYC/AML fields
-                sepa: row.sepa || '',
-                regtype_text: row.regtype_text || '',
-                type: row.type || '',
-                closed: row.closed || '',
-                region: row.region || '',
-                city: row.city || '',
-              };
-              this.registryMap.set(regcode, data);
-            }
-          })
-          .on('error', (error: Error) => {
-            reject(new Error(`Failed to parse registry.csv: ${error.message}`));
-          })
-          .on('end', () => {
-            console.log(`✓ Registry data loaded: ${this.registryMap.size} entries`);
-            resolve();
-          });
-      } catch (error) {
-        reject(error);
+  private async loadRegistryData(target: Map<string, RegistryRecord>, pool: StringPool): Promise<DatasetLoadStats> {
+    const stats = await this.streamDataset('registry', { delimiter: ';' }, (row) => {
+      const regcode = row.regcode?.trim();
+      if (regcode) {
+        target.set(regcode, {
+          name: row.name || '',
+          address: row.address || '',
+          registered: packDate(row.registered, pool),
+          terminated: packDate(row.terminated, pool),
+          type_text: pool.intern(row.type_text || ''),
+          // Priority 1 KYC/AML fields
+          sepa: pool.intern(row.sepa || ''),
+          regtype_text: pool.intern(row.regtype_text || ''),
+          type: pool.intern(row.type || ''),
+          closed: pool.intern(row.closed || ''),
+          region: pool.intern(row.region || ''),
+          city: pool.intern(row.city || ''),
+        });
       }
     });
+    console.log(`✓ Registry data loaded: ${target.size} entries`);
+    return stats;
   }
 
   /**
-   * Load taxpayer_rating.csv into memory from Supabase bucket
+   * Load taxpayer_rating.csv into memory from its configured source
    */
-  private async loadTaxData(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        console.log('Downloading taxpayer_rating.csv from Supabase bucket...');
-        const csvContent = await this.downloadFileFromBucket('taxpayer_rating.csv');
-        
-        // Create a readable stream from the string
-        const stream = Readable.from([csvContent]);
-        
-        stream
-          .pipe(
-            parse({
-              columns: true,
-              delimiter: ',',
-              skip_empty_lines: true,
-              trim: true,
-              quote: '"',
-              relax_quotes: true,
-            })
-          )
-          .on('data', (row: any) => {
-            const regcode = row.Registracijas_kods?.trim();
-            if (regcode) {
-              const data: TaxData = {
-                rating: row.Reitings || '',
-                explanation: row.Skaidrojums || '',
-                // Priority 1 KYC/AML field
-                rating_updated_date: row.Informacijas_atjaunosanas_datums || '',
-              };
-              this.taxMap.set(regcode, data);
-            }
-          })
-          .on('error', (error: Error) => {
-            reject(new Error(`Failed to parse taxpayer_rating.csv: ${error.message}`));
-          })
-          .on('end', () => {
-            console.log(`✓ Tax data loaded: ${this.taxMap.size} entries`);
-            resolve();
-          });
-      } catch (error) {
-        reject(error);
+  private async loadTaxData(target: Map<string, TaxData>, pool: StringPool): Promise<DatasetLoadStats> {
+    const stats = await this.streamDataset('tax', { delimiter: ',', quote: '"', relax_quotes: true }, (row) => {
+      const regcode = row.Registracijas_kods?.trim();
+      if (regcode) {
+        target.set(regcode, {
+          rating: pool.intern(row.Reitings || ''),
+          explanation: pool.intern(row.Skaidrojums || ''),
+          // Priority 1 KYC/AML field, normalized to an ISO date when recognisable
+          rating_updated_date: pool.intern(
+            parseTaxRatingDate(row.Informacijas_atjaunosanas_datums || '')?.toISOString().slice(0, 10)
+              || row.Informacijas_atjaunosanas_datums || ''
+          ),
+        });
       }
     });
+    console.log(`✓ Tax data loaded: ${target.size} entries`);
+    return stats;
   }
 
   /**
-   * Load insolvency.csv into memory from Supabase bucket
+   * Load insolvency.csv into memory from its configured source
    */
-  private async loadInsolvencyData(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        console.log('Downloading insolvency.csv from Supabase bucket...');
-        const csvContent = await this.downloadFileFromBucket('insolvency.csv');
-        
-        // Create a readable stream from the string
-        const stream = Readable.from([csvContent]);
-        
-        stream
-          .pipe(
-            parse({
-              columns: true,
-              delimiter: ';',
-              skip_empty_lines: true,
-              trim: true,
-            })
-          )
-          .on('data', (row: any) => {
-            const regcode = row.debtor_registration_number?.trim();
-            if (regcode) {
-              const data: InsolvencyData = {
-                proceeding_resolution_name: row.proceeding_resolution_name || '',
-                has_insolvency: true, // If record exists, has_insolvency is true
-                // Priority 1 KYC/AML fields
-                proceeding_started_on: row.proceeding_started_on || '',
-                proceeding_ended_on: row.proceeding_ended_on || '',
-                proceeding_form: row.proceeding_form || '',
-                proceeding_type: row.proceeding_type || '',
-                court_name: row.court_name || '',
-              };
-              this.insolvencyMap.set(regcode, data);
-            }
-          })
-          .on('error', (error: Error) => {
-            reject(new Error(`Failed to parse insolvency.csv: ${error.message}`));
-          })
-          .on('end', () => {
-            console.log(`✓ Insolvency data loaded: ${this.insolvencyMap.size} entries`);
-            resolve();
-          });
-      } catch (error) {
-        reject(error);
+  private async loadInsolvencyData(target: Map<string, InsolvencyProceeding[]>, pool: StringPool): Promise<DatasetLoadStats> {
+    let proceedingCount = 0;
+    const stats = await this.streamDataset('insolvency', { delimiter: ';' }, (row) => {
+      const regcode = row.debtor_registration_number?.trim();
+      if (regcode) {
+        const endedOn = row.proceeding_ended_on || '';
+        const proceeding: InsolvencyProceeding = {
+          proceeding_resolution_name: pool.intern(row.proceeding_resolution_name || ''),
+          // Priority 1 KYC/AML fields
+          proceeding_started_on: pool.intern(row.proceeding_started_on || ''),
+          proceeding_ended_on: pool.intern(endedOn),
+          proceeding_form: pool.intern(row.proceeding_form || ''),
+          proceeding_type: pool.intern(row.proceeding_type || ''),
+          court_name: pool.intern(row.court_name || ''),
+          is_open: endedOn.trim() === '',
+        };
+
+        const proceedings = target.get(regcode);
+        if (proceedings) {
+          proceedings.push(proceeding);
+        } else {
+          target.set(regcode, [proceeding]);
+        }
+        proceedingCount++;
       }
     });
+
+    // Newest proceeding first (ISO dates sort lexicographically)
+    for (const proceedings of target.values()) {
+      if (proceedings.length > 1) {
+        proceedings.sort((a, b) => b.proceeding_started_on.localeCompare(a.proceeding_started_on));
+      }
+    }
+
+    console.log(`✓ Insolvency data loaded: ${proceedingCount} proceedings for ${target.size} debtors`);
+    return stats;
+  }
+
+  /**
+   * Load beneficial_owners.csv into memory from its configured source
+   */
+  private async loadBeneficialOwnerData(target: Map<string, BeneficialOwner[]>, pool: StringPool): Promise<DatasetLoadStats> {
+    const stats = await this.streamDataset('beneficial_owners', { delimiter: ';' }, (row) => {
+      const regcode = row.legal_entity_registration_number?.trim();
+      if (regcode) {
+        const forename = row.forename || '';
+        const surname = row.surname || '';
+        const owner: BeneficialOwner = {
+          name: `${forename} ${surname}`.trim(),
+          forename,
+          surname,
+          birth_date: row.birth_date || '',
+          nationality: pool.intern(row.nationality || ''),
+          residence_country: pool.intern(row.residence || ''),
+          registered_on: row.registered_on || '',
+        };
+
+        const owners = target.get(regcode);
+        if (owners) {
+          owners.push(owner);
+        } else {
+          target.set(regcode, [owner]);
+        }
+      }
+    });
+    console.log(`✓ Beneficial owner data loaded: ${target.size} companies`);
+    return stats;
+  }
+
+  /**
+   * Load officers.csv into memory from its configured source
+   */
+  private async loadOfficerData(target: Map<string, Officer[]>, pool: StringPool): Promise<DatasetLoadStats> {
+    const stats = await this.streamDataset('officers', { delimiter: ';' }, (row) => {
+      const regcode = row.at_legal_entity_registration_number?.trim();
+      if (regcode) {
+        const role = pool.intern(row.position || '');
+        const governingBody = pool.intern(row.governing_body || '');
+        const officer: Officer = {
+          name: row.name || '',
+          role,
+          governing_body: governingBody,
+          entity_type: pool.intern(row.entity_type || ''),
+          legal_entity_registration_number: row.legal_entity_registration_number || '',
+          birth_date: row.birth_date || '',
+          appointed_on: row.registered_on || '',
+          is_liquidator: LIQUIDATOR_PATTERN.test(role) || LIQUIDATOR_PATTERN.test(governingBody),
+        };
+
+        const officers = target.get(regcode);
+        if (officers) {
+          officers.push(officer);
+        } else {
+          target.set(regcode, [officer]);
+        }
+      }
+    });
+    console.log(`✓ Officer data loaded: ${target.size} companies`);
+    return stats;
+  }
+
+  /**
+   * Load financial_statements.csv, then attach the matching balance sheet
+   * and income statement figures by statement id
+   * @returns Load stats of financial_statements.csv; the other two files are recorded in loadStats
+   */
+  private async loadFinancialData(
+    target: Map<string, FinancialYear[]>,
+    loadStats: DataSnapshot['loadStats']
+  ): Promise<DatasetLoadStats> {
+    const minYear = new Date().getFullYear() - FINANCIAL_YEARS_TO_KEEP;
+    // statement id → figures and the unit multiplier (thousands, lats) of that statement
+    const statements = new Map<string, { figures: FinancialYear; multiplier: number }>();
+    const filedAt = new Map<FinancialYear, string>();
+
+    const stats = await this.streamDataset('financial_statements', { delimiter: ';' }, (row) => {
+      const regcode = row.legal_entity_registration_number?.trim();
+      const year = Number(row.year);
+      if (!regcode || !row.id || !(year >= minYear)) return;
+
+      const figures: FinancialYear = {
+        year,
+        year_ended_on: row.year_ended_on || '',
+        employees: parseAmount(row.employees),
+        revenue: null,
+        net_income: null,
+        equity: null,
+        total_assets: null,
+      };
+      const multiplier = (row.rounded_to_nearest === 'THOUSANDS' ? 1000 : 1) * (row.currency === 'LVL' ? LVL_TO_EUR : 1);
+      statements.set(row.id, { figures, multiplier });
+
+      // Amended statements replace the earlier filing for the same year
+      const years = target.get(regcode) || [];
+      const existingIndex = years.findIndex((existing) => existing.year === year);
+      if (existingIndex === -1) {
+        years.push(figures);
+      } else if ((row.created_at || '') >= (filedAt.get(years[existingIndex]) || '')) {
+        years[existingIndex] = figures;
+      }
+      filedAt.set(figures, row.created_at || '');
+      target.set(regcode, years);
+    });
+
+    loadStats.balance_sheets = await this.streamDataset('balance_sheets', { delimiter: ';' }, (row) => {
+      const statement = statements.get(row.statement_id);
+      if (statement) {
+        statement.figures.equity = scaleAmount(parseAmount(row.equity), statement.multiplier);
+        statement.figures.total_assets = scaleAmount(parseAmount(row.total_assets), statement.multiplier);
+      }
+    });
+
+    loadStats.income_statements = await this.streamDataset('income_statements', { delimiter: ';' }, (row) => {
+      const statement = statements.get(row.statement_id);
+      if (statement) {
+        statement.figures.revenue = scaleAmount(parseAmount(row.net_turnover), statement.multiplier);
+        statement.figures.net_income = scaleAmount(parseAmount(row.net_income), statement.multiplier);
+      }
+    });
+
+    for (const years of target.values()) {
+      years.sort((a, b) => b.year - a.year);
+    }
+
+    console.log(`✓ Financial data loaded: ${target.size} companies`);
+    return stats;
   }
 
   /**
    * Get aggregated data for a given registration number
-   * @param regNumber - The registration number to lookup
+   * @param rawRegNumber - The registration number to lookup ("LV" prefix and separators allowed)
    * @returns AggregateData object combining all data sources
    * @throws Error if registration number not found in registry
    */
-  public getAggregateData(regNumber: string): AggregateData {
-    this.ensureInitialized();
+  public getAggregateData(rawRegNumber: string): AggregateData {
+    const {
+      registryMap, taxMap, insolvencyMap, beneficialOwnerMap, officerMap, financialMap, unavailableDatasets
+    } = this.getSnapshot();
+    const regNumber = normalizeRegistrationNumber(rawRegNumber, 'LV');
 
     console.log(`Looking up aggregate data for regNumber: ${regNumber}`);
 
-    const registryData = this.registryMap.get(regNumber);
-    if (!registryData) {
+    const registryRecord = registryMap.get(regNumber);
+    if (!registryRecord) {
       throw new Error(`Registration number ${regNumber} not found in registry`);
     }
+    const registryData = expandRegistryRecord(registryRecord);
 
-    const taxData = this.taxMap.get(regNumber);
-    const insolvencyData = this.insolvencyMap.get(regNumber);
+    const taxData = taxMap.get(regNumber);
+    const proceedings = insolvencyMap.get(regNumber) || [];
+    const openProceeding = proceedings.find((proceeding) => proceeding.is_open);
+    const insolvencyData = openProceeding || proceedings[0];
 
     return {
       // Registry data (always present)
@@ -349,23 +701,90 @@ export class CsvDataService {
       explanation: taxData?.explanation || null,
       // Tax Priority 1 KYC/AML field
       rating_updated_date: taxData?.rating_updated_date || null,
-      // Insolvency data (optional)
+      tax_rating: taxData
+        ? buildTaxRating(taxData.rating, taxData.explanation, taxData.rating_updated_date, TAX_RATING_MAX_AGE_DAYS)
+        : null,
+      // Insolvency data
+      insolvency_proceedings: proceedings.map((proceeding) => ({ ...proceeding })),
+      has_insolvency_history: proceedings.length > 0,
+      has_open_insolvency: openProceeding !== undefined,
       proceeding_resolution_name: insolvencyData?.proceeding_resolution_name || null,
-      has_insolvency: insolvencyData?.has_insolvency || false,
       // Insolvency Priority 1 KYC/AML fields
       proceeding_started_on: insolvencyData?.proceeding_started_on || null,
       proceeding_ended_on: insolvencyData?.proceeding_ended_on || null,
       proceeding_form: insolvencyData?.proceeding_form || null,
       proceeding_type: insolvencyData?.proceeding_type || null,
       court_name: insolvencyData?.court_name || null,
+      // Beneficial owners
+      beneficial_owners: (beneficialOwnerMap.get(regNumber) || []).map((owner) => ({ ...owner })),
+      beneficial_owners_available: !unavailableDatasets.has('beneficial_owners'),
+      // Officers
+      officers: (officerMap.get(regNumber) || []).map((officer) => ({ ...officer })),
+      officers_available: !unavailableDatasets.has('officers'),
+      // Financial statements
+      financial_statements: (financialMap.get(regNumber) || []).map((figures) => ({ ...figures })),
+      financial_statements_available: !unavailableDatasets.has('financial_statements'),
+      vat_number: null,
     };
   }
 
+  /**
+   * Normalize and validate a Latvian registration number
+   */
+  public validateRegistrationNumber(input: unknown): RegistrationNumberResult {
+    return validateRegistrationNumber(input);
+  }
+
+  /**
+   * Latvian VAT numbers are the registration number with an LV prefix
+   */
+  public getVatNumber(regNumber: string): string | null {
+    return `LV${normalizeRegistrationNumber(regNumber, 'LV')}`;
+  }
+
+  /**
+   * Search the registry by company name
+   * @param query - Full or partial company name, legal form and diacritics optional
+   * @param limit - Maximum number of results
+   * @returns Matching companies, best match first
+   */
+  public searchByName(query: string, limit: number = 10): RegistrySearchResult[] {
+    const { registryMap, nameIndex } = this.getSnapshot();
+
+    return nameIndex.search(query, limit).map((hit) =>
+      toSearchResult(hit.regcode, registryMap.get(hit.regcode)!, hit.score)
+    );
+  }
+
+  /**
+   * Look up a single registry entry in search result form
+   * @returns The company, or null if the registration number is unknown
+   */
+  public findByRegistrationNumber(regNumber: string): RegistrySearchResult | null {
+    const { registryMap } = this.getSnapshot();
+    const normalized = normalizeRegistrationNumber(regNumber, 'LV');
+    const record = registryMap.get(normalized);
+    return record ? toSearchResult(normalized, record, 100) : null;
+  }
+
+  /**
+   * Version of each dataset in the current snapshot; unavailable datasets are left out
+   */
+  public getDatasetVersions(): Record<string, DatasetVersion> {
+    const { loadStats, unavailableDatasets } = this.getSnapshot();
+
+    return Object.fromEntries(
+      (Object.keys(loadStats) as DatasetKey[])
+        .filter((key) => !unavailableDatasets.has(key))
+        .map((key) => [key, toDatasetVersion(DATASET_FILES[key], this.sources[key], loadStats[key]!)])
+    );
+  }
+
   /**
    * Check if the service is ready
    */
   public isReady(): boolean {
-    return this.isInitialized;
+    return this.snapshot !== null;
   }
 
   /**
@@ -373,13 +792,87 @@ export class CsvDataService {
    */
   public getStats() {
     return {
-      registryCount: this.registryMap.size,
-      taxCount: this.taxMap.size,
-      insolvencyCount: this.insolvencyMap.size,
-      isInitialized: this.isInitialized,
+      registryCount: this.snapshot?.registryMap.size ?? 0,
+      taxCount: this.snapshot?.taxMap.size ?? 0,
+      insolvencyCount: this.snapshot?.insolvencyMap.size ?? 0,
+      insolvencyProceedingCount: Array.from(this.snapshot?.insolvencyMap.values() ?? [])
+        .reduce((total, proceedings) => total + proceedings.length, 0),
+      beneficialOwnerCount: this.snapshot?.beneficialOwnerMap.size ?? 0,
+      officerCount: this.snapshot?.officerMap.size ?? 0,
+      financialCount: this.snapshot?.financialMap.size ?? 0,
+      unavailableDatasets: Array.from(this.snapshot?.unavailableDatasets ?? []),
+      nameIndexCount: this.snapshot?.nameIndex.size ?? 0,
+      loadStats: this.snapshot?.loadStats ?? {},
+      isInitialized: this.snapshot !== null,
+      loadedAt: this.snapshot?.loadedAt.toISOString() ?? null,
+      isReloading: this.reloadPromise !== null,
+      lastReloadAttemptAt: this.lastReloadAttemptAt?.toISOString() ?? null,
+      lastReloadError: this.lastReloadError,
+      sources: Object.fromEntries(
+        Object.entries(this.sources).map(([key, source]) => [key, source.location])
+      ),
     };
   }
 }
 
+/**
+ * Pack an ISO date (YYYY-MM-DD...) into a yyyymmdd number.
+ * Empty values become 0; anything else is kept as an interned string.
+ */
+function packDate(value: string | undefined, pool: StringPool): PackedDate {
+  if (!value) return 0;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return pool.intern(value);
+  return Number(match[1] + match[2] + match[3]);
+}
+
+function unpackDate(value: PackedDate): string {
+  if (typeof value === 'string') return value;
+  if (value === 0) return '';
+  const digits = String(value);
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+function expandRegistryRecord(record: RegistryRecord): RegistryData {
+  const terminated = unpackDate(record.terminated);
+  return {
+    name: record.name,
+    address: record.address,
+    registered: unpackDate(record.registered),
+    type_text: record.type_text,
+    terminated,
+    is_active: terminated.trim() === '',
+    sepa: record.sepa,
+    regtype_text: record.regtype_text,
+    type: record.type,
+    closed: record.closed,
+    region: record.region,
+    city: record.city,
+  };
+}
+
+/**
+ * Parse a numeric CSV cell, null when empty or not a number
+ */
+function parseAmount(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const amount = Number(value.replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function scaleAmount(amount: number | null, multiplier: number): number | null {
+  return amount === null ? null : Math.round(amount * multiplier);
+}
+
+function toSearchResult(regcode: string, record: RegistryRecord, score: number): RegistrySearchResult {
+  return {
+    registration_number: regcode,
+    name: record.name,
+    address: record.address,
+    is_active: record.terminated === 0,
+    score,
+  };
+}
+
 // Export getInstance function for easy access
 export const getCsvDataService = () => CsvDataService.getInstance();
@@ -0,0 +1,259 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { parse, Options as CsvParseOptions } from 'csv-parse';
+import { SupabaseService } from './supabase';
+
+/**
+ * Where a single dataset file is read from.
+ * The CSV loaders only see a byte stream, never the storage backend.
+ */
+export interface DatasetSource {
+  /** Human-readable location, used in logs */
+  readonly location: string;
+  /** Open the file as a stream so it never has to be held in memory whole */
+  openStream(): Promise<DatasetStream>;
+}
+
+export interface DatasetStream {
+  stream: Readable;
+  /** Last modification time reported by the source (ISO), null if it does not tell */
+  modifiedAt: string | null;
+}
+
+export interface DatasetLoadStats {
+  rows: number;
+  durationMs: number;
+  peakRssMb: number;
+  peakHeapUsedMb: number;
+  /** Version of the file that was loaded, as last-modified time */
+  sourceModifiedAt: string | null;
+  /** When this dataset finished loading (ISO); kept when a failed reload carries the dataset over */
+  loadedAt: string;
+}
+
+/**
+ * Which version of a dataset a lookup used; recorded with each risk profile
+ */
+export interface DatasetVersion {
+  file: string;
+  source: string;
+  modified_at: string | null;
+  loaded_at: string;
+  rows: number;
+}
+
+const HTTP_TIMEOUT_MS = 120000;
+
+/**
+ * GET a URL as a byte stream
+ */
+async function openHttpStream(url: string): Promise<DatasetStream> {
+  const { data, headers } = await axios.get<Readable>(url, {
+    responseType: 'stream',
+    timeout: HTTP_TIMEOUT_MS,
+  });
+  const lastModified = headers['last-modified'] ? new Date(String(headers['last-modified'])) : null;
+  return {
+    stream: data,
+    modifiedAt: lastModified && !isNaN(lastModified.getTime()) ? lastModified.toISOString() : null,
+  };
+}
+
+export type DatasetSourceType = 'supabase' | 'local' | 'http';
+
+const SOURCE_TYPES: DatasetSourceType[] = ['supabase', 'local', 'http'];
+
+/**
+ * Dataset file stored in a Supabase storage bucket
+ */
+export class SupabaseStorageSource implements DatasetSource {
+  private supabaseService: SupabaseService | null = null;
+
+  constructor(private readonly bucket: string, private readonly fileName: string) {}
+
+  get location(): string {
+    return `supabase://${this.bucket}/${this.fileName}`;
+  }
+
+  async openStream(): Promise<DatasetStream> {
+    // Created lazily so local/http setups never need Supabase credentials
+    if (!this.supabaseService) {
+      this.supabaseService = new SupabaseService();
+    }
+    await this.supabaseService.signIn();
+
+    // download() buffers the whole file as a Blob, so stream through a signed URL instead
+    const { data, error } = await this.supabaseService.getClient()
+      .storage
+      .from(this.bucket)
+      .createSignedUrl(this.fileName, 600);
+
+    if (error) {
+      console.error(`Signed URL error for ${this.fileName}:`, error);
+      throw new Error(`Failed to access ${this.fileName} in Supabase: ${JSON.stringify(error)}`);
+    }
+
+    if (!data?.signedUrl) {
+      throw new Error(`No signed URL received for ${this.fileName}`);
+    }
+
+    try {
+      return await openHttpStream(data.signedUrl);
+    } catch (error) {
+      throw new Error(`Failed to download ${this.fileName} from Supabase: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Dataset file on the local filesystem
+ */
+export class LocalFileSource implements DatasetSource {
+  constructor(private readonly filePath: string) {}
+
+  get location(): string {
+    return `file://${path.resolve(this.filePath)}`;
+  }
+
+  async openStream(): Promise<DatasetStream> {
+    let modifiedAt: Date;
+    try {
+      await fs.promises.access(this.filePath, fs.constants.R_OK);
+      modifiedAt = (await fs.promises.stat(this.filePath)).mtime;
+    } catch (error) {
+      throw new Error(`Failed to read ${this.filePath}: ${(error as Error).message}`);
+    }
+    return { stream: fs.createReadStream(this.filePath), modifiedAt: modifiedAt.toISOString() };
+  }
+}
+
+/**
+ * Dataset file served over plain HTTP(S), e.g. the data.gov.lv download URL
+ */
+export class HttpSource implements DatasetSource {
+  constructor(private readonly url: string) {}
+
+  get location(): string {
+    return this.url;
+  }
+
+  async openStream(): Promise<DatasetStream> {
+    try {
+      return await openHttpStream(this.url);
+    } catch (error) {
+      throw new Error(`Failed to fetch ${this.url}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Build the source for a dataset from environment configuration.
+ *
+ * DATASET_SOURCE            default source type for all datasets (supabase | local | http), default supabase
+ * DATASET_SOURCE_<KEY>      per-dataset override, e.g. DATASET_SOURCE_REGISTRY=local
+ * DATASET_BUCKET            Supabase storage bucket, default kyc-data
+ * DATASET_LOCAL_DIR         directory for local files, default ./data
+ * DATASET_URL_<KEY>         full URL for an http dataset
+ * DATASET_HTTP_BASE_URL     base URL for http datasets without an explicit URL
+ *
+ * @param key - Dataset key, e.g. 'registry'
+ * @param fileName - File name of the dataset, e.g. 'registry.csv'
+ */
+export function createDatasetSource(key: string, fileName: string): DatasetSource {
+  const envKey = key.toUpperCase();
+  const type = (process.env[`DATASET_SOURCE_${envKey}`] || process.env.DATASET_SOURCE || 'supabase').toLowerCase();
+
+  if (!SOURCE_TYPES.includes(type as DatasetSourceType)) {
+    throw new Error(`Unknown dataset source "${type}" for ${key}. Expected one of: ${SOURCE_TYPES.join(', ')}`);
+  }
+
+  switch (type as DatasetSourceType) {
+    case 'local':
+      return new LocalFileSource(path.join(process.env.DATASET_LOCAL_DIR || './data', fileName));
+
+    case 'http': {
+      const baseUrl = process.env.DATASET_HTTP_BASE_URL;
+      const url = process.env[`DATASET_URL_${envKey}`] || (baseUrl ? `${baseUrl.replace(/\/$/, '')}/${fileName}` : null);
+      if (!url) {
+        throw new Error(`No URL configured for ${key}. Set DATASET_URL_${envKey} or DATASET_HTTP_BASE_URL.`);
+      }
+      return new HttpSource(url);
+    }
+
+    case 'supabase':
+    default:
+      return new SupabaseStorageSource(process.env.DATASET_BUCKET || 'kyc-data', fileName);
+  }
+}
+
+/**
+ * Stream a dataset from its source through the CSV parser,
+ * calling onRow for every parsed row. Nothing but the current chunk is held in memory.
+ * @returns Row count, load time and peak memory observed while loading
+ */
+export async function streamCsv(
+  fileName: string,
+  source: DatasetSource,
+  parseOptions: CsvParseOptions,
+  onRow: (row: any) => void
+): Promise<DatasetLoadStats> {
+  console.log(`Loading ${fileName} from ${source.location}...`);
+
+  const startedAt = Date.now();
+  let rows = 0;
+  let peakRss = 0;
+  let peakHeapUsed = 0;
+  const sampleMemory = () => {
+    const { rss, heapUsed } = process.memoryUsage();
+    peakRss = Math.max(peakRss, rss);
+    peakHeapUsed = Math.max(peakHeapUsed, heapUsed);
+  };
+
+  const { stream: input, modifiedAt } = await source.openStream();
+  const parser = parse({ columns: true, skip_empty_lines: true, trim: true, ...parseOptions });
+  // Forward source errors (e.g. dropped connection) to the parser so the loop below rejects
+  input.on('error', (error) => parser.destroy(error));
+  input.pipe(parser);
+
+  try {
+    for await (const row of parser) {
+      onRow(row);
+      rows++;
+      if (rows % 10000 === 0) sampleMemory();
+    }
+  } catch (error) {
+    input.destroy();
+    throw new Error(`Failed to parse ${fileName}: ${(error as Error).message}`);
+  }
+  sampleMemory();
+
+  const stats: DatasetLoadStats = {
+    rows,
+    durationMs: Date.now() - startedAt,
+    peakRssMb: toMb(peakRss),
+    peakHeapUsedMb: toMb(peakHeapUsed),
+    sourceModifiedAt: modifiedAt,
+    loadedAt: new Date().toISOString(),
+  };
+  console.log(`✓ ${fileName}: ${rows} rows in ${stats.durationMs}ms (peak RSS ${stats.peakRssMb} MB, heap ${stats.peakHeapUsedMb} MB)`);
+  return stats;
+}
+
+/**
+ * Describe a loaded dataset for the audit trail
+ */
+export function toDatasetVersion(file: string, source: DatasetSource, stats: DatasetLoadStats): DatasetVersion {
+  return {
+    file,
+    source: source.location,
+    modified_at: stats.sourceModifiedAt,
+    loaded_at: stats.loadedAt,
+    rows: stats.rows,
+  };
+}
+
+function toMb(bytes: number): number {
+  return Math.round(bytes / 1024 / 1024);
+}
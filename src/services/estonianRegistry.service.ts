@@ -0,0 +1,85 @@
+import { OpenDataRegistry, RegistryEntry, toIsoDate } from './openDataRegistry.service';
+import type { InsolvencyProceeding } from './csvData.service';
+import { RegistrationNumberResult, validateEstonianRegistryCode } from '../utils/registrationNumber';
+
+// e-Business Register basic data (lihtandmed) extract from avaandmed.ariregister.rik.ee
+const DATASETS = {
+  ee_registry: 'ettevotja_rekvisiidid__lihtandmed.csv',
+};
+
+// ettevotja_staatus codes
+const STATUS_DELETED = 'K';
+const STATUS_BANKRUPT = 'N';
+
+/**
+ * Country registry for Estonia, from the e-Business Register (äriregister) open data
+ */
+export class EstonianRegistryService extends OpenDataRegistry {
+  public readonly countryCode = 'EE';
+  private static instance: EstonianRegistryService | null = null;
+
+  private constructor() {
+    super(DATASETS);
+  }
+
+  public static getInstance(): EstonianRegistryService {
+    if (!EstonianRegistryService.instance) {
+      EstonianRegistryService.instance = new EstonianRegistryService();
+    }
+    return EstonianRegistryService.instance;
+  }
+
+  public validateRegistrationNumber(input: unknown): RegistrationNumberResult {
+    return validateEstonianRegistryCode(input);
+  }
+
+  protected async loadEntries(target: Map<string, RegistryEntry>) {
+    const stats = await this.streamDataset('ee_registry', { delimiter: ';', relax_quotes: true }, (row) => {
+      const regcode = row.ariregistri_kood?.trim();
+      if (!regcode) return;
+
+      const status = row.ettevotja_staatus || '';
+      const statusText = row.ettevotja_staatus_tekstina || '';
+      // The bankruptcy start date is not in the extract, only that the company is in bankruptcy
+      const proceedings: InsolvencyProceeding[] = status === STATUS_BANKRUPT
+        ? [{
+          proceeding_resolution_name: statusText,
+          proceeding_started_on: '',
+          proceeding_ended_on: '',
+          proceeding_form: '',
+          proceeding_type: 'Pankrot',
+          court_name: '',
+          is_open: true,
+        }]
+        : [];
+
+      const locality = row.asukoha_ehak_tekstina || '';
+      target.set(regcode, {
+        name: row.nimi || '',
+        address: row.ads_normaliseeritud_taisaadress
+          || [row.asukoht_ettevotja_aadressis, locality, row.indeks_ettevotja_aadressis].filter(Boolean).join(', '),
+        registered: toIsoDate(row.ettevotja_esmakande_kpv),
+        terminated: '',
+        is_active: status !== STATUS_DELETED,
+        legal_form: row.ettevotja_oiguslik_vorm || '',
+        status,
+        status_text: statusText,
+        city: locality.split(',')[0].trim(),
+        vat_number: toVatNumber(row.kmkr_nr),
+        insolvency_proceedings: proceedings,
+      });
+    });
+
+    console.log(`✓ Estonian registry data loaded: ${target.size} entries`);
+    return { ee_registry: stats };
+  }
+}
+
+/**
+ * KMKR number with its EE prefix, which the extract sometimes leaves out
+ */
+function toVatNumber(value: string | undefined): string | null {
+  const number = value?.replace(/\s/g, '').toUpperCase();
+  if (!number) return null;
+  return /^\d+$/.test(number) ? `EE${number}` : number;
+}
@@ -0,0 +1,68 @@
+import { SupabaseService } from './supabase';
+import type { Tables } from '../types';
+import type { EvidenceRecord } from '../utils/evidence';
+import { toJson } from '../utils/json';
+
+export type ScreeningEvidence = Tables<'screening_evidence'>;
+
+/**
+ * Raw provider requests and responses behind a risk profile, stored in screening_evidence
+ * with one row per provider call, linked to the company_risk_profiles row
+ */
+export class EvidenceService {
+  private supabaseService: SupabaseService;
+
+  constructor() {
+    this.supabaseService = new SupabaseService();
+  }
+
+  /**
+   * Store the evidence collected while generating a risk profile
+   */
+  async save(profileId: string, registrationNumber: string, records: EvidenceRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.supabaseService.signIn();
+
+    const { error } = await this.supabaseService.getClient()
+      .from('screening_evidence')
+      .insert(records.map((record) => ({
+        profile_id: profileId,
+        registration_number: registrationNumber,
+        provider: record.provider,
+        operation: record.operation,
+        request: toJson(record.request),
+        response: toJson(record.response),
+        status: record.status,
+        error: record.error,
+        latency_ms: record.latency_ms,
+        requested_at: record.requested_at,
+      })));
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    console.log(`✓ Stored ${records.length} evidence records for profile ${profileId}`);
+  }
+
+  /**
+   * Evidence for one risk profile, in call order
+   */
+  async getForProfile(profileId: string): Promise<ScreeningEvidence[]> {
+    await this.supabaseService.signIn();
+
+    const { data, error } = await this.supabaseService.getClient()
+      .from('screening_evidence')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('requested_at', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    return data || [];
+  }
+}
@@ -1,4 +1,25 @@
 import axios from 'axios';
+import { normalizeRegistrationNumber, validateRegistrationNumber } from '../utils/registrationNumber';
+import { AddressComparison, compareAddresses } from '../utils/address';
+import { LocalSanctionsService } from './sanctionsList.service';
+import { LinkedPerson, PersonScreeningService } from './personScreening.service';
+import { Adjudication, AdjudicationService } from './adjudication.service';
+import { cachedCall, cacheKey, CacheProvenance, combineProvenance } from './resultCache.service';
+import { describeError, getCircuitBreaker, isTransientHttpError, withRetry } from '../utils/resilience';
+import { captureEvidence } from '../utils/evidence';
+import { getRateLimiter } from '../utils/rateLimit';
+import {
+  classifyCandidate,
+  CompanyScreeningQuery,
+  MatchEvidence,
+  PersonScreeningQuery,
+  SanctionCandidate,
+  summarizeCandidates,
+  weighEvidence,
+  weighPersonEvidence,
+} from '../utils/sanctionsMatch';
+import { generateNameVariants, normalizeCompanyName } from '../utils/companyName';
+import { nameSimilarity } from '../utils/nameMatching';
 
 // Interfaces for the OpenSanctions API Response
 interface OpenSanctionsMatch {
@@ -6,8 +27,20 @@ interface OpenSanctionsMatch {
   caption: string; // The name found in the database
   schema: string;  // 'Company', 'Person', 'Organization'
   score: number;   // 0.0 to 1.0 (1.0 is exact match)
+  datasets?: string[];
   properties: {
+    name?: string[];
+    alias?: string[];
     topics?: string[]; // e.g., ["sanction", "role.pep"]
+    country?: string[];
+    jurisdiction?: string[];
+    registrationNumber?: string[];
+    taxNumber?: string[];
+    innCode?: string[];
+    ogrnCode?: string[];
+    birthDate?: string[];
+    nationality?: string[];
+    citizenship?: string[];
     sourceUrl?: string[];
   };
 }
@@ -20,170 +53,579 @@ interface OpenSanctionsResponse {
   };
 }
 
+/**
+ * Outcome of an external check:
+ * - clear: the check ran and found nothing adverse
+ * - hit: the check ran and found something adverse (sanctions match, invalid VAT number)
+ * - unavailable: the check could not be completed; the company is NOT known to be clean
+ */
+export type CheckStatus = 'clear' | 'hit' | 'unavailable';
+
 // Interface for our Service's Output
-interface SanctionCheckResult {
+export interface SanctionCheckResult {
+  status: CheckStatus;
+  /** Why the check is unavailable */
+  error: string | null;
   is_sanctioned: boolean;
   sanction_details: any | null; // Detailed JSON for the DB
   sanction_sources: string[];   // List of sources (e.g. "OFAC", "EU")
+  /** Every candidate the screening returned, classified, best first */
+  candidates: SanctionCandidate[];
+}
+
+/**
+ * VAT registration as reported by VIES:
+ * - registered: valid VAT number
+ * - not_vat_registered: well-formed number that VIES does not know, i.e. the company is not a VAT payer
+ * - invalid: the number is not a well-formed VAT number
+ */
+export type VatStatus = 'registered' | 'not_vat_registered' | 'invalid';
+
+export interface ViesCheckResult {
+  status: CheckStatus;
+  error: string | null;
+  /** Country prefix + number, e.g. LV40003012345; null when the company's VAT number is not known */
+  vatNumber: string | null;
+  /** null when VIES could not be reached or there was no VAT number to check */
+  vatStatus: VatStatus | null;
+  isValid: boolean;
+  name: string | null;
+  address: string | null;
 }
 
+/**
+ * A sanctions screening backend usable by checkAll
+ */
+export interface SanctionsProvider {
+  readonly name: string;
+  checkCompany(query: CompanyScreeningQuery): Promise<SanctionCheckResult>;
+  checkPerson(query: PersonScreeningQuery): Promise<SanctionCheckResult>;
+}
+
+/**
+ * Live OpenSanctions Match API
+ */
+const openSanctionsProvider: SanctionsProvider = {
+  name: 'opensanctions',
+  checkCompany: (query) => ExternalApiService.checkOpenSanctions(query),
+  checkPerson: (query) => ExternalApiService.checkOpenSanctionsPerson(query),
+};
+
 export class ExternalApiService {
   private static readonly OPENSANCTIONS_URL = 'https://api.opensanctions.org/match/default';
-  
-  // Threshold: If match score is below 70%, ignore it (fuzzy match noise)
-  private static readonly MATCH_THRESHOLD = 0.7;
+
+  // Candidates requested per query; the API scores and we classify them (see utils/sanctionsMatch)
+  private static readonly MAX_CANDIDATES = 10;
+  // Lowest score the API returns, below every possible-match threshold so near misses are visible
+  private static readonly CANDIDATE_CUTOFF = 0.5;
+
+  // Retries after the first attempt, with exponential backoff from RETRY_BASE_DELAY_MS
+  private static readonly MAX_RETRIES = 2;
+  private static readonly RETRY_BASE_DELAY_MS = 500;
+
+  /**
+   * Call a provider through its circuit breaker, retrying transient failures.
+   * Every attempt goes through the provider's rate limiter.
+   */
+  private static callProvider<T>(provider: string, fn: () => Promise<T>): Promise<T> {
+    const limiter = getRateLimiter(provider);
+    return getCircuitBreaker(provider).execute(() =>
+      withRetry(() => limiter.schedule(fn), {
+        retries: this.MAX_RETRIES,
+        baseDelayMs: this.RETRY_BASE_DELAY_MS,
+        shouldRetry: isTransientHttpError,
+      })
+    );
+  }
 
   /**
    * Main function to check everything
+   * @param address - Registered address, sent to sanctions screening to tell same-named companies apart
+   * @param persons - Applicant, officers and owners to screen for sanctions and PEP status
+   * @param vatNumber - VAT number from the country registry; null skips VIES when it is not known
+   * @param forceRefresh - Call every provider even when a fresh cached result exists
    */
-  public static async checkAll(regNumber: string, companyName: string, countryCode: string = 'LV') {
-    // Run API checks in parallel
-    const [vies, sanctions] = await Promise.all([
-      this.checkVies(countryCode, regNumber),
-      this.checkOpenSanctions(companyName)
+  public static async checkAll(
+    regNumber: string,
+    companyName: string,
+    countryCode: string = 'LV',
+    address: string | null = null,
+    persons: LinkedPerson[] = [],
+    vatNumber?: string | null,
+    forceRefresh: boolean = false
+  ) {
+    const screeningQuery: CompanyScreeningQuery = {
+      name: companyName,
+      registration_number: countryCode.toUpperCase() === 'LV' ? normalizeRegistrationNumber(regNumber, 'LV') : regNumber,
+      country: countryCode,
+      address,
+    };
+
+    // Run API checks in parallel, from cache where fresh, with analyst decisions applied to screening candidates
+    const companyProvenance: CacheProvenance[] = [];
+    const personProvenance: CacheProvenance[] = [];
+    const sanctionsProvider = this.withAdjudications(
+      this.withCache(this.getSanctionsProvider(), forceRefresh, companyProvenance, personProvenance),
+      await this.loadAdjudications(regNumber)
+    );
+    const [vies, sanctions, personScreening] = await Promise.all([
+      cachedCall('vies', cacheKey(countryCode, regNumber, vatNumber), () => this.checkVies(countryCode, regNumber, vatNumber), {
+        forceRefresh,
+        cacheable: (result) => result.status !== 'unavailable'
+      }),
+      sanctionsProvider.checkCompany(screeningQuery),
+      PersonScreeningService.screen(persons, sanctionsProvider)
     ]);
 
+    const cacheProvenance: Record<string, CacheProvenance> = { vies: vies.provenance };
+    const sanctionsProvenance = combineProvenance(companyProvenance);
+    if (sanctionsProvenance) cacheProvenance.sanctions = sanctionsProvenance;
+    const personsProvenance = combineProvenance(personProvenance);
+    if (personsProvenance) cacheProvenance.person_screening = personsProvenance;
+
+    // A VAT address differing from the registered address is a discrepancy worth a look
+    const viesResult = vies.value;
+    const viesAddressComparison: AddressComparison | null = viesResult.address && address
+      ? compareAddresses(viesResult.address, address)
+      : null;
+
     return {
-      vies_valid: vies.isValid,
-      vies_address: vies.address,
+      vies_status: viesResult.status,
+      vies_error: viesResult.error,
+      vat_number: viesResult.vatNumber,
+      vat_status: viesResult.vatStatus,
+      vies_valid: viesResult.isValid,
+      vies_name: viesResult.name,
+      vies_address: viesResult.address,
+      vies_address_comparison: viesAddressComparison,
+      sanctions_status: sanctions.status,
+      sanctions_error: sanctions.error,
       is_sanctioned: sanctions.is_sanctioned,
       sanction_details: sanctions.sanction_details,
-      sanction_sources: sanctions.sanction_sources
+      sanction_sources: sanctions.sanction_sources,
+      sanction_candidates: sanctions.candidates,
+      person_screening: personScreening,
+      cache_provenance: cacheProvenance
     };
   }
 
   /**
-   * Check EU VIES (VAT Validation)
+   * Pick the sanctions provider from SANCTIONS_PROVIDER:
+   * 'opensanctions' (live API), 'local' (offline lists) or 'auto' (default):
+   * the live API when OPENSANCTIONS_API_KEY is set, otherwise the local lists
+   */
+  public static getSanctionsProvider(): SanctionsProvider {
+    const configured = (process.env.SANCTIONS_PROVIDER || 'auto').toLowerCase();
+
+    if (configured === 'local') return LocalSanctionsService.getInstance();
+    if (configured === 'opensanctions') return openSanctionsProvider;
+
+    return process.env.OPENSANCTIONS_API_KEY ? openSanctionsProvider : LocalSanctionsService.getInstance();
+  }
+
+  /**
+   * Stored analyst decisions for a company. Screening proceeds without them if they cannot be loaded,
+   * which can only raise more hits, never hide one.
    */
-  public static async checkVies(countryCode: string, regNumber: string) {
+  private static async loadAdjudications(regNumber: string): Promise<Adjudication[]> {
     try {
-      // Clean the country code and Reg number
-      const country = countryCode.toUpperCase();
-      const number = regNumber.replace(/[^0-9A-Za-z]/g, '');
+      return await new AdjudicationService().getDecisions(regNumber);
+    } catch (error) {
+      console.warn('⚠️ Could not load screening adjudications:', (error as Error).message);
+      return [];
+    }
+  }
+
+  /**
+   * Wrap a sanctions provider so fresh cached results are reused, recording where each result came from.
+   * Results are cached before analyst decisions are applied, so a new decision takes effect immediately.
+   */
+  private static withCache(
+    provider: SanctionsProvider,
+    forceRefresh: boolean,
+    companyProvenance: CacheProvenance[],
+    personProvenance: CacheProvenance[]
+  ): SanctionsProvider {
+    const options = { forceRefresh, cacheable: (result: SanctionCheckResult) => result.status !== 'unavailable' };
+
+    return {
+      name: provider.name,
+      checkCompany: async (query) => {
+        const key = cacheKey('company', normalizeCompanyName(query.name), query.registration_number, query.country, query.address);
+        const { value, provenance } = await cachedCall(provider.name, key, () => provider.checkCompany(query), options);
+        companyProvenance.push(provenance);
+        return value;
+      },
+      checkPerson: async (query) => {
+        const key = cacheKey('person', normalizeCompanyName(query.name), query.birth_date, query.nationality);
+        const { value, provenance } = await cachedCall(provider.name, key, () => provider.checkPerson(query), options);
+        personProvenance.push(provenance);
+        return value;
+      },
+    };
+  }
+
+  /**
+   * Wrap a sanctions provider so its results carry stored analyst decisions,
+   * and record decisions that lapsed because the listed entity changed
+   */
+  private static withAdjudications(provider: SanctionsProvider, decisions: Adjudication[]): SanctionsProvider {
+    if (decisions.length === 0) return provider;
+
+    const apply = (label: string, result: SanctionCheckResult): SanctionCheckResult => {
+      if (result.status === 'unavailable') return result;
+
+      const { candidates, invalidatedIds } = AdjudicationService.applyDecisions(result.candidates, decisions);
+      if (!candidates.some((candidate) => candidate.adjudication)) return result;
+
+      if (invalidatedIds.length > 0) {
+        console.warn(`⚠️ ${invalidatedIds.length} adjudication(s) for ${label} invalidated: listed entity data changed`);
+        new AdjudicationService().invalidate(invalidatedIds).catch((error) =>
+          console.error('❌ Failed to mark adjudications invalidated:', (error as Error).message)
+        );
+      }
+
+      console.log(`⚖️  Applying analyst decisions to ${label}`);
+      return this.buildSanctionCheckResult(label, candidates);
+    };
+
+    return {
+      name: provider.name,
+      checkCompany: async (query) => apply(query.name, await provider.checkCompany(query)),
+      checkPerson: async (query) => apply(query.name, await provider.checkPerson(query)),
+    };
+  }
+
+  /**
+   * Check EU VIES (VAT Validation)
+   * The VAT number is the country prefix plus the number; for Latvian companies "LV" + the 11-digit registration number.
+   * Only VAT-registered companies are in VIES, so a well-formed number that VIES does not know means
+   * "not VAT registered" (clear), while a malformed number is "invalid" (hit).
+   * unavailable = VIES or the member state service could not answer
+   * @param knownVatNumber - VAT number with country prefix when it differs from the registration number
+   *   (e.g. Estonian KMKR numbers); null when the company's VAT number is not known, which skips the check
+   */
+  public static async checkVies(countryCode: string, regNumber: string, knownVatNumber?: string | null): Promise<ViesCheckResult> {
+    if (knownVatNumber === null) {
+      console.log(`ℹ️  VIES Check skipped: no VAT number known for ${countryCode}${regNumber}`);
+      return {
+        status: 'clear',
+        error: null,
+        vatNumber: null,
+        vatStatus: null,
+        isValid: false,
+        name: null,
+        address: null
+      };
+    }
+
+    // Clean the country code and Reg number
+    const cleaned = knownVatNumber?.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+    const country = cleaned ? cleaned.slice(0, 2) : countryCode.toUpperCase();
+    const number = cleaned
+      ? cleaned.slice(2)
+      : country === 'LV'
+        ? normalizeRegistrationNumber(regNumber, 'LV')
+        : regNumber.replace(/[^0-9A-Za-z]/g, '');
+    const vatNumber = `${country}${number}`;
+
+    const result = (vatStatus: VatStatus, name: string | null = null, address: string | null = null): ViesCheckResult => ({
+      status: vatStatus === 'invalid' ? 'hit' : 'clear',
+      error: null,
+      vatNumber,
+      vatStatus,
+      isValid: vatStatus === 'registered',
+      name,
+      address
+    });
+
+    // A malformed Latvian number cannot be a VAT number; no need to ask VIES
+    if (country === 'LV' && !validateRegistrationNumber(number).valid) {
+      console.log(`⚠️  VIES Check INVALID: ${vatNumber} is not a well-formed Latvian VAT number`);
+      return result('invalid');
+    }
 
-      console.log(`🔍 Checking VIES for VAT number: ${country}${number}`);
+    try {
+      console.log(`🔍 Checking VIES for VAT number: ${vatNumber}`);
 
       // Check VIES REST API - Correct endpoint format
       const url = `https://ec.europa.eu/taxation_customs/vies/rest-api/ms/${country}/vat/${number}`;
-      const { data } = await axios.get(url, {
-        timeout: 10000, // 10 second timeout
-        headers: {
-          'Accept': 'application/json'
+      const data = await this.callProvider('vies', async () => {
+        try {
+          const response = await captureEvidence('vies', 'check_vat', { url }, () =>
+            axios.get(url, {
+              timeout: 10000, // 10 second timeout
+              headers: {
+                'Accept': 'application/json'
+              }
+            }),
+            (response) => response.data
+          );
+          // VIES reports member state outages (MS_UNAVAILABLE, TIMEOUT, ...) in a 200 response
+          const userError = response.data.userError;
+          if (userError && !['VALID', 'INVALID', 'INVALID_INPUT'].includes(userError)) {
+            throw new Error(`VIES returned ${userError}`);
+          }
+          return response.data;
+        } catch (error) {
+          // A 404 means the VAT number is not found in VIES - an answer, not a failure
+          if (axios.isAxiosError(error) && error.response?.status === 404) {
+            return { isValid: false, notFound: true };
+          }
+          throw error;
         }
       });
 
-      const isValid = data.isValid === true;
-      const address = data.traderAddress || data.address || null;
+      if (data.userError === 'INVALID_INPUT') {
+        console.log(`⚠️  VIES Check INVALID: ${vatNumber} is not a well-formed VAT number`);
+        return result('invalid');
+      }
 
-      if (isValid) {
-        console.log(`✅ VIES Check VALID: ${country}${number} is registered in EU VIES database`);
-        if (address) {
-          console.log(`   Address: ${address}`);
-        }
-      } else {
-        console.log(`⚠️  VIES Check INVALID: ${country}${number} is not valid in EU VIES database`);
+      if (data.isValid !== true) {
+        console.log(`ℹ️  VIES Check: ${vatNumber} is not VAT registered${data.notFound ? ' (not found in VIES)' : ''}`);
+        return result('not_vat_registered');
       }
 
+      // VIES uses "---" when the member state does not disclose a field
+      const disclosed = (value: unknown) => (typeof value === 'string' && value.trim() && value.trim() !== '---' ? value.trim() : null);
+      const name = disclosed(data.name || data.traderName);
+      const address = disclosed(data.address || data.traderAddress);
+
+      console.log(`✅ VIES Check VALID: ${vatNumber} is registered in EU VIES database`);
+      if (address) {
+        console.log(`   Address: ${address}`);
+      }
+      return result('registered', name, address);
+    } catch (error) {
+      const reason = describeError(error);
+      console.error('❌ VIES Check failed:', reason);
+      // Do not report the number as invalid when VIES simply could not be reached
       return {
-        isValid,
-        address
+        status: 'unavailable',
+        error: `VIES check failed: ${reason}`,
+        vatNumber,
+        vatStatus: null,
+        isValid: false,
+        name: null,
+        address: null
       };
-    } catch (error) {
-      // Check if it's a 404 - which means VAT number not found in VIES
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        console.warn(`❌ VIES Check: VAT number ${countryCode}${regNumber} not found in EU VIES database`);
-        return { isValid: false, address: null };
-      }
-      
-      console.error('❌ VIES Check failed:', error instanceof Error ? error.message : error);
-      // Fail open: Don't block the process if VIES is down, just mark invalid/unknown
-      return { isValid: false, address: null };
     }
   }
 
   /**
    * Check OpenSanctions API (Real Live Check)
-   * Uses Match API with LegalEntity schema to reduce false positives
+   * Uses Match API with LegalEntity schema and every identifying property we have to reduce false positives
    */
-  public static async checkOpenSanctions(companyName: string): Promise<SanctionCheckResult> {
+  public static async checkOpenSanctions(query: CompanyScreeningQuery): Promise<SanctionCheckResult> {
+    const companyName = query.name;
+
+    // We explicitly say schema: 'LegalEntity' so we don't match people
+    // Name as written, in ASCII and in Cyrillic, so listings in either script are found
+    const properties: Record<string, string[]> = { name: this.nameVariants(companyName) };
+    if (query.registration_number) properties.registrationNumber = [query.registration_number];
+    if (query.country) {
+      properties.jurisdiction = [query.country.toLowerCase()];
+      properties.country = [query.country.toLowerCase()];
+    }
+    if (query.address) properties.address = [query.address];
+
+    return this.matchOpenSanctions(companyName, 'LegalEntity', properties, (match) => {
+      const listed = {
+        registration_numbers: [
+          ...(match.properties.registrationNumber || []),
+          ...(match.properties.taxNumber || []),
+          ...(match.properties.innCode || []),
+          ...(match.properties.ogrnCode || []),
+        ],
+        countries: Array.from(new Set([...(match.properties.jurisdiction || []), ...(match.properties.country || [])])),
+      };
+      const { score, evidence } = weighEvidence(match.score, listed, query);
+      return { ...this.toSanctionCandidate(companyName, match, listed.countries, score, evidence), ...listed };
+    });
+  }
+
+  /**
+   * Screen a natural person with the Match API Person schema, using birth date and nationality when known
+   */
+  public static async checkOpenSanctionsPerson(query: PersonScreeningQuery): Promise<SanctionCheckResult> {
+    const properties: Record<string, string[]> = { name: this.nameVariants(query.name) };
+    if (query.birth_date) properties.birthDate = [query.birth_date];
+    if (query.nationality) properties.nationality = [query.nationality.toLowerCase()];
+
+    return this.matchOpenSanctions(query.name, 'Person', properties, (match) => {
+      const listed = {
+        birth_dates: match.properties.birthDate || [],
+        countries: Array.from(new Set([
+          ...(match.properties.nationality || []),
+          ...(match.properties.citizenship || []),
+          ...(match.properties.country || []),
+        ])),
+      };
+      const { score, evidence } = weighPersonEvidence(match.score, listed, query);
+      return { ...this.toSanctionCandidate(query.name, match, listed.countries, score, evidence), ...listed };
+    });
+  }
+
+  private static nameVariants(name: string): string[] {
+    const variants = generateNameVariants(name);
+    return variants.length > 0 ? variants : [name];
+  }
+
+  /**
+   * Run one Match API query and turn the results into classified candidates
+   * @param toCandidate - Weighs a result with the evidence available for its schema
+   */
+  private static async matchOpenSanctions(
+    label: string,
+    schema: string,
+    properties: Record<string, string[]>,
+    toCandidate: (match: OpenSanctionsMatch) => SanctionCandidate
+  ): Promise<SanctionCheckResult> {
     const apiKey = process.env.OPENSANCTIONS_API_KEY;
 
     if (!apiKey) {
-      console.warn('⚠️ No OPENSANCTIONS_API_KEY found. Skipping live sanction check.');
-      return { is_sanctioned: false, sanction_details: null, sanction_sources: [] };
+      console.warn('⚠️ No OPENSANCTIONS_API_KEY found. Cannot run live sanction check.');
+      return {
+        status: 'unavailable',
+        error: 'OPENSANCTIONS_API_KEY not configured',
+        is_sanctioned: false,
+        sanction_details: null,
+        sanction_sources: [],
+        candidates: []
+      };
     }
 
     try {
-      console.log(`🔍 Checking OpenSanctions for: "${companyName}"`);
+      console.log(`🔍 Checking OpenSanctions (${schema}) for: "${label}"`);
 
       // Construct the Query Body for the "Match" endpoint
-      // We explicitly say schema: 'LegalEntity' so we don't match people
       const body = {
         queries: {
           query1: {
-            schema: 'LegalEntity',
-            properties: {
-              name: [companyName]
-            }
+            schema,
+            properties
           }
         }
       };
 
-      const response = await axios.post<OpenSanctionsResponse>(
-        this.OPENSANCTIONS_URL,
-        body,
-        {
-          headers: {
-            'Authorization': `ApiKey ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
+      const params = {
+        limit: this.MAX_CANDIDATES,
+        cutoff: this.CANDIDATE_CUTOFF
+      };
+
+      const response = await this.callProvider('opensanctions', () =>
+        captureEvidence('opensanctions', `match_${schema}`, { url: this.OPENSANCTIONS_URL, params, body }, () =>
+          axios.post<OpenSanctionsResponse>(
+            this.OPENSANCTIONS_URL,
+            body,
+            {
+              timeout: 15000,
+              params,
+              headers: {
+                'Authorization': `ApiKey ${apiKey}`,
+                'Content-Type': 'application/json'
+              }
+            }
+          ),
+          (response) => response.data
+        )
       );
 
-      const results = response.data.responses.query1.results;
-      
-      if (results.length === 0) {
-        console.log(`✅ No sanctions found - ${companyName} is CLEAN`);
-        return { is_sanctioned: false, sanction_details: null, sanction_sources: [] };
-      }
+      const candidates = response.data.responses.query1.results
+        .map(toCandidate)
+        .sort((a, b) => b.score - a.score);
+      return this.buildSanctionCheckResult(label, candidates);
 
-      console.log(`⚠️  Found ${results.length} potential match(es) for ${companyName}`);
+    } catch (error) {
+      const reason = describeError(error);
+      console.error('❌ OpenSanctions API failed:', reason);
+      // Never report "not sanctioned" when the check did not run
+      return {
+        status: 'unavailable',
+        error: `OpenSanctions check failed: ${reason}`,
+        is_sanctioned: false,
+        sanction_details: null,
+        sanction_sources: [],
+        candidates: []
+      };
+    }
+  }
 
-      // Log matches for debugging
-      results.forEach((match, index) => {
-        console.log(`  Match ${index + 1}: ${match.caption} (${(match.score * 100).toFixed(1)}% - ${match.schema})`);
-      });
+  /**
+   * Classify a weighed OpenSanctions match and find which of its names matched
+   */
+  private static toSanctionCandidate(
+    queryName: string,
+    match: OpenSanctionsMatch,
+    countries: string[],
+    score: number,
+    evidence: MatchEvidence
+  ): SanctionCandidate {
+    const { properties } = match;
+    const topics = properties.topics || [];
+    const normalizedName = normalizeCompanyName(queryName);
+    const names = [...(properties.name || []), ...(properties.alias || [])];
+    const matchedName = names.reduce(
+      (best, name) => {
+        const similarity = nameSimilarity(normalizedName, normalizeCompanyName(name));
+        return similarity > best.similarity ? { name, similarity } : best;
+      },
+      { name: match.caption, similarity: -1 }
+    ).name;
 
-      // Filter for High Confidence Matches
-      const highConfidenceMatches = results.filter(
-        (match) => match.score >= this.MATCH_THRESHOLD
-      );
+    return {
+      id: match.id,
+      caption: match.caption,
+      schema: match.schema,
+      score,
+      matched_name: matchedName,
+      datasets: match.datasets || [],
+      topics,
+      countries,
+      source_urls: properties.sourceUrl || [],
+      registration_numbers: [],
+      evidence,
+      ...classifyCandidate(score, topics, evidence.identifier_match),
+    };
+  }
 
-      if (highConfidenceMatches.length > 0) {
-        // We found a sanctioned entity
-        const bestMatch = highConfidenceMatches[0];
-        
-        console.log(`🚨 HIGH CONFIDENCE MATCH - ${companyName} appears SANCTIONED`);
-        console.log(`   Best match: ${bestMatch.caption} (${(bestMatch.score * 100).toFixed(1)}%)`);
-        
-        // Extract topic tags (e.g. "sanction") to list sources
-        const sources = bestMatch.properties.topics || ['Unspecified Sanction List'];
-
-        return {
-          is_sanctioned: true,
-          sanction_details: highConfidenceMatches, // Store full match array in DB
-          sanction_sources: sources
-        };
-      }
+  /**
+   * Sanctions result from classified candidates: a hit on any list makes the status 'hit',
+   * only hits on sanction lists set is_sanctioned
+   */
+  public static buildSanctionCheckResult(companyName: string, candidates: SanctionCandidate[]): SanctionCheckResult {
+    if (candidates.length === 0) {
+      console.log(`✅ No sanctions candidates found - ${companyName} is CLEAN`);
+      return { status: 'clear', error: null, is_sanctioned: false, sanction_details: null, sanction_sources: [], candidates };
+    }
 
-      console.log(`✅ Matches below ${this.MATCH_THRESHOLD * 100}% threshold - ${companyName} is likely CLEAN`);
-      return { is_sanctioned: false, sanction_details: null, sanction_sources: [] };
+    candidates.forEach((candidate, index) => {
+      const evidence = candidate.evidence.identifier_match
+        ? ', identifier match'
+        : candidate.evidence.conflicts.length > 0 ? `, down-ranked: ${candidate.evidence.conflicts.join('; ')}` : '';
+      const adjudication = candidate.adjudication
+        ? `, ${candidate.adjudication.decision} (${candidate.adjudication.status})`
+        : '';
+      console.log(`  Candidate ${index + 1}: ${candidate.caption} (${(candidate.score * 100).toFixed(1)}% - ${candidate.schema}, ${candidate.topic_category}${evidence}${adjudication}) → ${candidate.classification}`);
+    });
 
-    } catch (error) {
-      console.error('❌ OpenSanctions API failed:', error instanceof Error ? error.message : error);
-      // If API fails, we return false but log it. 
-      // In Production, you might want to throw error to trigger a retry.
-      return { is_sanctioned: false, sanction_details: { error: 'API Request Failed' }, sanction_sources: [] };
+    const { hits, possibleMatches, isSanctioned, sources } = summarizeCandidates(candidates);
+
+    if (hits.length > 0) {
+      console.log(`🚨 ${hits.length} HIT(S) - ${companyName} matches ${hits[0].caption} (${(hits[0].score * 100).toFixed(1)}%)`);
+    } else if (possibleMatches.length > 0) {
+      console.log(`⚠️  ${possibleMatches.length} possible match(es) for ${companyName} need review`);
+    } else {
+      console.log(`✅ All candidates discarded - ${companyName} is likely CLEAN`);
     }
+
+    return {
+      status: hits.length > 0 ? 'hit' : 'clear',
+      error: null,
+      is_sanctioned: isSanctioned,
+      sanction_details: hits.length > 0 ? hits : null, // Store hits in DB
+      sanction_sources: sources,
+      candidates
+    };
   }
 }
@@ -0,0 +1,74 @@
+import type { FinancialYear } from './csvData.service';
+import { FinancialsService } from './financials.service';
+
+const statement = (year: number, figures: Partial<FinancialYear> = {}): FinancialYear => ({
+  year,
+  year_ended_on: `${year}-12-31`,
+  employees: 10,
+  revenue: 1000000,
+  net_income: 50000,
+  equity: 200000,
+  total_assets: 600000,
+  ...figures,
+});
+
+describe('FinancialsService.summarize', () => {
+  it('returns the latest figures with changes against the previous year', () => {
+    const summary = FinancialsService.summarize([
+      statement(2025, { revenue: 1250000, equity: -50000, employees: 12 }),
+      statement(2024, { revenue: 1000000, equity: 100000, employees: 10 }),
+    ]);
+
+    expect(summary).toMatchObject({
+      latest_year: 2025,
+      revenue: 1250000,
+      equity: -50000,
+      revenue_change_pct: 25,
+      equity_change_pct: -150,
+      employees_change: 2,
+    });
+  });
+
+  it('measures the change from negative equity against its size', () => {
+    const summary = FinancialsService.summarize([statement(2025, { equity: -20000 }), statement(2024, { equity: -40000 })]);
+
+    expect(summary?.equity_change_pct).toBe(50);
+  });
+
+  it('does not compare against a year that is not directly before the latest', () => {
+    const summary = FinancialsService.summarize([statement(2025), statement(2023)]);
+
+    expect(summary?.revenue_change_pct).toBeNull();
+    expect(summary?.employees_change).toBeNull();
+  });
+
+  it('has no change against a zero or missing previous figure', () => {
+    const summary = FinancialsService.summarize([statement(2025), statement(2024, { revenue: 0, employees: null })]);
+
+    expect(summary?.revenue_change_pct).toBeNull();
+    expect(summary?.employees_change).toBeNull();
+  });
+
+  it('returns null without statements', () => {
+    expect(FinancialsService.summarize([])).toBeNull();
+  });
+});
+
+describe('FinancialsService.parseDeclaredAmount', () => {
+  it('reads plain amounts and thousands separators', () => {
+    expect(FinancialsService.parseDeclaredAmount('15000')).toBe(15000);
+    expect(FinancialsService.parseDeclaredAmount('15 000')).toBe(15000);
+    expect(FinancialsService.parseDeclaredAmount('1,250,000 EUR')).toBe(1250000);
+  });
+
+  it('resolves ranges and bounds to the largest number', () => {
+    expect(FinancialsService.parseDeclaredAmount('10000-50000')).toBe(50000);
+    expect(FinancialsService.parseDeclaredAmount('>100000')).toBe(100000);
+  });
+
+  it('returns null without a number', () => {
+    expect(FinancialsService.parseDeclaredAmount('')).toBeNull();
+    expect(FinancialsService.parseDeclaredAmount(null)).toBeNull();
+    expect(FinancialsService.parseDeclaredAmount('not disclosed')).toBeNull();
+  });
+});
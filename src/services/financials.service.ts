@@ -0,0 +1,61 @@
+import type { FinancialYear } from './csvData.service';
+
+/**
+ * Latest financial position of a company with year-over-year changes
+ */
+export interface FinancialSummary {
+  latest_year: number;
+  revenue: number | null;
+  employees: number | null;
+  equity: number | null;
+  net_income: number | null;
+  /** Percentage change against the previous year, null if not comparable */
+  revenue_change_pct: number | null;
+  equity_change_pct: number | null;
+  employees_change: number | null;
+  years: FinancialYear[];
+}
+
+export class FinancialsService {
+  /**
+   * Summarize annual statements (newest first) into the latest figures and YoY changes
+   * @returns null when the company has no statements
+   */
+  public static summarize(statements: FinancialYear[]): FinancialSummary | null {
+    if (statements.length === 0) return null;
+
+    const latest = statements[0];
+    // Only compare against the directly preceding year
+    const previous = statements.find((statement) => statement.year === latest.year - 1);
+
+    return {
+      latest_year: latest.year,
+      revenue: latest.revenue,
+      employees: latest.employees,
+      equity: latest.equity,
+      net_income: latest.net_income,
+      revenue_change_pct: FinancialsService.percentChange(previous?.revenue, latest.revenue),
+      equity_change_pct: FinancialsService.percentChange(previous?.equity, latest.equity),
+      employees_change: previous?.employees != null && latest.employees !== null
+        ? latest.employees - previous.employees
+        : null,
+      years: statements,
+    };
+  }
+
+  /**
+   * Parse a declared amount from the KYB form, e.g. "15000", "15 000", "10000-50000", ">100000".
+   * Ranges resolve to their upper bound.
+   * @returns The amount in EUR, or null if no number is present
+   */
+  public static parseDeclaredAmount(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const numbers = (value.replace(/(\d)[\s,](?=\d{3}\b)/g, '$1').match(/\d+(\.\d+)?/g) || []).map(Number);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+  }
+
+  private static percentChange(previous: number | null | undefined, current: number | null): number | null {
+    if (previous == null || current === null || previous === 0) return null;
+    return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+  }
+}
@@ -0,0 +1,104 @@
+import { OpenDataRegistry, RegistryEntry, toIsoDate } from './openDataRegistry.service';
+import type { DatasetLoadStats } from './datasetSource.service';
+import type { InsolvencyProceeding } from './csvData.service';
+import { RegistrationNumberResult, validateLithuanianLegalEntityCode } from '../utils/registrationNumber';
+
+// Register of Legal Entities open data from the State Enterprise Centre of Registers (Registrų centras)
+const DATASETS = {
+  lt_registry: 'JAR_IREGISTRUOTI.csv',
+  lt_deregistered: 'JAR_ISREGISTRUOTI.csv',
+};
+
+// stat_pavadinimas values containing this are bankruptcy statuses (Bankrutuojantis, Bankrutavęs)
+const BANKRUPTCY_PATTERN = /bankrut/i;
+// Bankruptcy has been completed (Bankrutavęs), as opposed to in progress (Bankrutuojantis)
+const BANKRUPTCY_COMPLETED_PATTERN = /bankrutav/i;
+
+/**
+ * Country registry for Lithuania, from the Register of Legal Entities (Juridinių asmenų registras) open data.
+ * Deregistered entities are loaded as inactive so a struck-off company is not reported as unknown.
+ */
+export class LithuanianRegistryService extends OpenDataRegistry {
+  public readonly countryCode = 'LT';
+  private static instance: LithuanianRegistryService | null = null;
+
+  private constructor() {
+    super(DATASETS);
+  }
+
+  public static getInstance(): LithuanianRegistryService {
+    if (!LithuanianRegistryService.instance) {
+      LithuanianRegistryService.instance = new LithuanianRegistryService();
+    }
+    return LithuanianRegistryService.instance;
+  }
+
+  public validateRegistrationNumber(input: unknown): RegistrationNumberResult {
+    return validateLithuanianLegalEntityCode(input);
+  }
+
+  protected async loadEntries(target: Map<string, RegistryEntry>) {
+    const loadStats: Record<string, DatasetLoadStats> = {};
+
+    loadStats.lt_registry = await this.streamDataset('lt_registry', { delimiter: '|', relax_quotes: true }, (row) => {
+      const regcode = row.ja_kodas?.trim();
+      if (regcode) {
+        target.set(regcode, toEntry(row, ''));
+      }
+    });
+
+    // Optional: without it deregistered companies are simply not found
+    try {
+      loadStats.lt_deregistered = await this.streamDataset('lt_deregistered', { delimiter: '|', relax_quotes: true }, (row) => {
+        const regcode = row.ja_kodas?.trim();
+        if (regcode && !target.has(regcode)) {
+          target.set(regcode, toEntry(row, toIsoDate(row.isreg_data) || 'unknown date'));
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️ Optional dataset ${DATASETS.lt_deregistered} failed to load: ${(error as Error).message}`);
+    }
+
+    console.log(`✓ Lithuanian registry data loaded: ${target.size} entries`);
+    return loadStats;
+  }
+}
+
+/**
+ * Map a register row to an entry
+ * @param terminated - Deregistration date, empty for registered entities
+ */
+function toEntry(row: any, terminated: string): RegistryEntry {
+  const statusText = row.stat_pavadinimas || '';
+  const statusSince = toIsoDate(row.stat_data_nuo);
+
+  // Only the current status is published, so at most one proceeding is known
+  const proceedings: InsolvencyProceeding[] = BANKRUPTCY_PATTERN.test(statusText)
+    ? [{
+      proceeding_resolution_name: statusText,
+      proceeding_started_on: BANKRUPTCY_COMPLETED_PATTERN.test(statusText) ? '' : statusSince,
+      proceeding_ended_on: BANKRUPTCY_COMPLETED_PATTERN.test(statusText) ? statusSince : '',
+      proceeding_form: '',
+      proceeding_type: 'Bankrotas',
+      court_name: '',
+      is_open: !BANKRUPTCY_COMPLETED_PATTERN.test(statusText) && terminated === '',
+    }]
+    : [];
+
+  const address = row.adresas || '';
+  return {
+    name: row.ja_pavadinimas || '',
+    address,
+    registered: toIsoDate(row.ja_reg_data),
+    terminated,
+    is_active: terminated === '',
+    legal_form: row.form_pavadinimas || '',
+    status: row.stat_kodas || '',
+    status_text: statusText,
+    // Addresses end with the municipality, e.g. "Gedimino pr. 1, LT-01103 Vilnius"
+    city: address.split(',').pop()?.replace(/LT-?\d{5}/i, '').trim() || '',
+    // Not part of the open data
+    vat_number: null,
+    insolvency_proceedings: proceedings,
+  };
+}
@@ -0,0 +1,29 @@
+import { FixtureSearchProvider } from './mediaSearch.service';
+
+describe('FixtureSearchProvider', () => {
+  const provider = new FixtureSearchProvider();
+
+  it('returns the articles for every phrase the query contains, with missing fields filled in', async () => {
+    const articles = await provider.search('"baltijas nafta" kukulis OR krāpšana', { language: 'lv' });
+
+    expect(articles.map((article) => article.url)).toEqual([
+      'https://example.lv/zinas/baltijas-nafta-aizturets',
+      'https://example.com/news/baltijas-nafta-terminal',
+    ]);
+    expect(articles[1]).toEqual({
+      title: 'Baltijas Nafta opens a new terminal in Ventspils',
+      url: 'https://example.com/news/baltijas-nafta-terminal',
+      snippet: 'The fuel trader Baltijas Nafta has opened a storage terminal in the Port of Ventspils.',
+      published_at: null,
+      source: null,
+    });
+  });
+
+  it('applies the limit', async () => {
+    expect(await provider.search('Baltijas Nafta', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns nothing for a query without a known phrase', async () => {
+    expect(await provider.search('Rīgas Piens fraud')).toEqual([]);
+  });
+});
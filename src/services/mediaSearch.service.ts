@@ -0,0 +1,193 @@
+import fs from 'fs';
+import axios from 'axios';
+import { SafeSearchType, search } from 'duck-duck-scrape';
+import { captureEvidence } from '../utils/evidence';
+import { getRateLimiter, QuotaExceededError } from '../utils/rateLimit';
+
+/**
+ * One search hit: a web page or news article
+ */
+export interface MediaArticle {
+  title: string;
+  url: string;
+  snippet: string;
+  /** ISO date, null when the backend does not give one */
+  published_at: string | null;
+  /** Publisher or site name */
+  source: string | null;
+}
+
+export interface MediaSearchOptions {
+  /** ISO 639-1 language of the query, e.g. en, lv, ru */
+  language?: string;
+  limit?: number;
+}
+
+/**
+ * A web or news search backend for adverse media screening
+ */
+export interface MediaSearchProvider {
+  readonly name: string;
+  search(query: string, options?: MediaSearchOptions): Promise<MediaArticle[]>;
+}
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * DuckDuckGo web results, scraped. DuckDuckGo blocks bursts, so its rate limit (utils/rateLimit) is strict.
+ */
+export class DuckDuckGoSearchProvider implements MediaSearchProvider {
+  public readonly name = 'duckduckgo';
+  private static readonly MAX_RETRIES = 2;
+
+  // DuckDuckGo locale per query language
+  private static readonly LOCALES: Record<string, string> = { en: 'en-us', lv: 'lv-lv', ru: 'ru-ru' };
+
+  async search(query: string, options: MediaSearchOptions = {}): Promise<MediaArticle[]> {
+    const searchOptions = {
+      safeSearch: SafeSearchType.OFF,
+      time: 'y', // Past year
+      locale: DuckDuckGoSearchProvider.LOCALES[options.language || 'en'] || 'en-us'
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const searchResults = await getRateLimiter(this.name).schedule(async () => {
+          // A random 1-3 seconds on top of the rate limit to appear more human-like
+          await sleep(Math.floor(Math.random() * 2000) + 1000);
+          console.log(`🔍 Performing DuckDuckGo search (attempt ${attempt}/${DuckDuckGoSearchProvider.MAX_RETRIES})...`);
+          return captureEvidence('duckduckgo', 'search', { query, ...searchOptions }, () =>
+            search(query, searchOptions)
+          );
+        });
+        console.log('✅ Search completed successfully');
+
+        return searchResults.results.slice(0, options.limit ?? DEFAULT_LIMIT).map((result) => ({
+          title: result.title,
+          url: result.url,
+          snippet: result.description,
+          published_at: null,
+          source: result.hostname || null,
+        }));
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          throw error;
+        }
+        console.warn(`⚠️ Search attempt ${attempt} failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (attempt >= DuckDuckGoSearchProvider.MAX_RETRIES) {
+          console.error('❌ All search attempts exhausted. DuckDuckGo may be rate limiting this IP.');
+          throw error;
+        }
+        // Longer exponential backoff: 10s, 20s
+        await sleep(10000 * Math.pow(2, attempt - 1));
+      }
+    }
+  }
+}
+
+/**
+ * NewsAPI.org "everything" endpoint; needs NEWS_API_KEY
+ */
+export class NewsApiSearchProvider implements MediaSearchProvider {
+  public readonly name = 'newsapi';
+  private static readonly URL = 'https://newsapi.org/v2/everything';
+  // Languages NewsAPI can filter by; other queries run unfiltered
+  private static readonly LANGUAGES = new Set(['ar', 'de', 'en', 'es', 'fr', 'he', 'it', 'nl', 'no', 'pt', 'ru', 'sv', 'zh']);
+
+  async search(query: string, options: MediaSearchOptions = {}): Promise<MediaArticle[]> {
+    const apiKey = process.env.NEWS_API_KEY;
+    if (!apiKey) {
+      throw new Error('NEWS_API_KEY not configured');
+    }
+
+    const params = {
+      q: query,
+      sortBy: 'relevancy',
+      pageSize: options.limit ?? DEFAULT_LIMIT,
+      ...(options.language && NewsApiSearchProvider.LANGUAGES.has(options.language) ? { language: options.language } : {}),
+    };
+
+    console.log(`🔍 Searching NewsAPI for: ${query}`);
+    const response = await getRateLimiter(this.name).schedule(() =>
+      captureEvidence('newsapi', 'search', { url: NewsApiSearchProvider.URL, params }, () =>
+        axios.get(NewsApiSearchProvider.URL, {
+          params,
+          timeout: 15000,
+          headers: { 'X-Api-Key': apiKey }
+        }),
+        (response) => response.data
+      )
+    );
+
+    return (response.data.articles || []).map((article: any) => ({
+      title: article.title || '',
+      url: article.url,
+      snippet: article.description || article.content || '',
+      published_at: article.publishedAt || null,
+      source: article.source?.name || null,
+    }));
+  }
+}
+
+/**
+ * Offline stub for tests and demos, reading ADVERSE_MEDIA_FIXTURES (default ./test/fixtures/adverse_media_fixtures.json):
+ * an object mapping a phrase to the articles returned for any query containing it (case-insensitive)
+ */
+export class FixtureSearchProvider implements MediaSearchProvider {
+  public readonly name = 'fixture';
+
+  async search(query: string, options: MediaSearchOptions = {}): Promise<MediaArticle[]> {
+    const file = process.env.ADVERSE_MEDIA_FIXTURES || './test/fixtures/adverse_media_fixtures.json';
+    const fixtures: Record<string, Partial<MediaArticle>[]> = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    const lowerQuery = query.toLowerCase();
+
+    return Object.entries(fixtures)
+      .filter(([phrase]) => lowerQuery.includes(phrase.toLowerCase()))
+      .flatMap(([, articles]) => articles)
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map((article) => ({
+        title: article.title || '',
+        url: article.url || '',
+        snippet: article.snippet || '',
+        published_at: article.published_at ?? null,
+        source: article.source ?? null,
+      }));
+  }
+}
+
+const providers: Record<string, MediaSearchProvider> = {};
+
+/**
+ * Pick the search backend from ADVERSE_MEDIA_PROVIDER:
+ * 'duckduckgo', 'newsapi', 'fixture', 'disabled' or 'auto' (default):
+ * NewsAPI when NEWS_API_KEY is set, otherwise DuckDuckGo
+ * @returns The provider, or null when adverse media screening is disabled
+ */
+export function getMediaSearchProvider(): MediaSearchProvider | null {
+  let configured = (process.env.ADVERSE_MEDIA_PROVIDER || 'auto').toLowerCase();
+  if (configured === 'disabled') return null;
+  if (configured === 'auto') {
+    configured = process.env.NEWS_API_KEY ? 'newsapi' : 'duckduckgo';
+  }
+
+  if (!providers[configured]) {
+    switch (configured) {
+      case 'newsapi':
+        providers[configured] = new NewsApiSearchProvider();
+        break;
+      case 'fixture':
+        providers[configured] = new FixtureSearchProvider();
+        break;
+      case 'duckduckgo':
+        providers[configured] = new DuckDuckGoSearchProvider();
+        break;
+      default:
+        throw new Error(`Unknown adverse media provider "${configured}". Expected one of: duckduckgo, newsapi, fixture, disabled, auto`);
+    }
+  }
+  return providers[configured];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,274 @@
+import { Options as CsvParseOptions } from 'csv-parse';
+import { CompanyNameIndex } from './companyNameIndex';
+import type { CountryRegistry } from './countryRegistry.service';
+import type { AggregateData, InsolvencyProceeding, RegistrySearchResult } from './csvData.service';
+import {
+  createDatasetSource,
+  DatasetLoadStats,
+  DatasetSource,
+  DatasetVersion,
+  streamCsv,
+  toDatasetVersion,
+} from './datasetSource.service';
+import { normalizeRegistrationNumber, RegistrationNumberResult } from '../utils/registrationNumber';
+
+/**
+ * One company from a foreign register's open-data extract.
+ * These registers publish basic registry data only; tax ratings, owners,
+ * officers and financial statements are reported as unavailable.
+ */
+export interface RegistryEntry {
+  name: string;
+  address: string;
+  /** ISO date */
+  registered: string;
+  /** ISO date, empty while active or when the register does not give one */
+  terminated: string;
+  is_active: boolean;
+  legal_form: string;
+  /** Register status code, e.g. R (registered) or L (in liquidation) */
+  status: string;
+  status_text: string;
+  city: string;
+  vat_number: string | null;
+  /** Proceedings derived from the company status, newest first */
+  insolvency_proceedings: InsolvencyProceeding[];
+}
+
+interface RegistrySnapshot {
+  entries: Map<string, RegistryEntry>;
+  nameIndex: CompanyNameIndex;
+  loadStats: Record<string, DatasetLoadStats>;
+  loadedAt: Date;
+}
+
+/**
+ * Country registry loaded from a register's open-data CSV files.
+ * Subclasses declare their files and map rows to RegistryEntry; loading,
+ * snapshot swapping, lookups and search are shared.
+ */
+export abstract class OpenDataRegistry implements CountryRegistry {
+  abstract readonly countryCode: string;
+  private snapshot: RegistrySnapshot | null = null;
+  private reloadPromise: Promise<void> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private lastReloadError: string | null = null;
+  private sources: Record<string, DatasetSource>;
+
+  /**
+   * @param datasets - Dataset key → file name; keys select the source via DATASET_SOURCE_<KEY>
+   */
+  protected constructor(private readonly datasets: Record<string, string>) {
+    this.sources = Object.fromEntries(
+      Object.entries(datasets).map(([key, fileName]) => [key, createDatasetSource(key, fileName)])
+    );
+  }
+
+  abstract validateRegistrationNumber(input: unknown): RegistrationNumberResult;
+
+  /**
+   * Fill target with every company in the register, keyed by registration number
+   * @returns Load stats per dataset key
+   */
+  protected abstract loadEntries(target: Map<string, RegistryEntry>): Promise<Record<string, DatasetLoadStats>>;
+
+  public async init(): Promise<void> {
+    if (this.snapshot) return;
+    await this.reload();
+    console.log(`${this.countryCode} registry initialized successfully`);
+  }
+
+  /**
+   * Load the register into a fresh snapshot and swap it in; on failure the previous snapshot is kept
+   */
+  public reload(): Promise<void> {
+    if (!this.reloadPromise) {
+      this.reloadPromise = this.buildAndSwapSnapshot().finally(() => {
+        this.reloadPromise = null;
+      });
+    }
+    return this.reloadPromise;
+  }
+
+  private async buildAndSwapSnapshot(): Promise<void> {
+    try {
+      const next: RegistrySnapshot = {
+        entries: new Map(),
+        nameIndex: new CompanyNameIndex(),
+        loadStats: {},
+        loadedAt: new Date(),
+      };
+      next.loadStats = await this.loadEntries(next.entries);
+
+      if (next.entries.size === 0) {
+        throw new Error(`${this.countryCode} registry produced no entries`);
+      }
+
+      for (const [regcode, entry] of next.entries) {
+        next.nameIndex.add(regcode, entry.name, entry.is_active);
+      }
+      next.nameIndex.build();
+
+      next.loadedAt = new Date();
+      this.snapshot = next;
+      this.lastReloadError = null;
+      console.log(`Loaded ${next.entries.size} ${this.countryCode} registry entries`);
+    } catch (error) {
+      this.lastReloadError = (error as Error).message;
+      if (this.snapshot) {
+        console.error(`${this.countryCode} registry reload failed, keeping previous snapshot:`, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream one of the registry's datasets, calling onRow for every parsed row
+   */
+  protected streamDataset(key: string, parseOptions: CsvParseOptions, onRow: (row: any) => void): Promise<DatasetLoadStats> {
+    return streamCsv(this.datasets[key], this.sources[key], parseOptions, onRow);
+  }
+
+  /**
+   * Periodically reload the register in the background
+   */
+  public startScheduledRefresh(intervalMs: number): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = setInterval(() => {
+      this.reload().catch(() => {
+        // Already logged in buildAndSwapSnapshot
+      });
+    }, intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  private getSnapshot(): RegistrySnapshot {
+    if (!this.snapshot) {
+      throw new Error(`${this.countryCode} registry not initialized. Call init() first.`);
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Registry data in the shared AggregateData shape; datasets the register does not publish are marked unavailable
+   * @throws Error if registration number not found in registry
+   */
+  public getAggregateData(rawRegNumber: string): AggregateData {
+    const regNumber = this.normalize(rawRegNumber);
+    const entry = this.getSnapshot().entries.get(regNumber);
+    if (!entry) {
+      throw new Error(`Registration number ${regNumber} not found in ${this.countryCode} registry`);
+    }
+
+    const proceedings = entry.insolvency_proceedings;
+    const openProceeding = proceedings.find((proceeding) => proceeding.is_open);
+    const insolvencyData = openProceeding || proceedings[0];
+
+    return {
+      name: entry.name,
+      address: entry.address,
+      registered: entry.registered,
+      type_text: entry.legal_form,
+      terminated: entry.terminated,
+      is_active: entry.is_active,
+      sepa: '',
+      regtype_text: entry.status_text,
+      type: '',
+      closed: entry.status,
+      region: '',
+      city: entry.city,
+      rating: null,
+      explanation: null,
+      rating_updated_date: null,
+      tax_rating: null,
+      insolvency_proceedings: proceedings.map((proceeding) => ({ ...proceeding })),
+      has_insolvency_history: proceedings.length > 0,
+      has_open_insolvency: openProceeding !== undefined,
+      proceeding_resolution_name: insolvencyData?.proceeding_resolution_name || null,
+      proceeding_started_on: insolvencyData?.proceeding_started_on || null,
+      proceeding_ended_on: insolvencyData?.proceeding_ended_on || null,
+      proceeding_form: insolvencyData?.proceeding_form || null,
+      proceeding_type: insolvencyData?.proceeding_type || null,
+      court_name: insolvencyData?.court_name || null,
+      beneficial_owners: [],
+      beneficial_owners_available: false,
+      officers: [],
+      officers_available: false,
+      financial_statements: [],
+      financial_statements_available: false,
+      vat_number: entry.vat_number,
+    };
+  }
+
+  public searchByName(query: string, limit: number = 10): RegistrySearchResult[] {
+    const { entries, nameIndex } = this.getSnapshot();
+    return nameIndex.search(query, limit).map((hit) => toSearchResult(hit.regcode, entries.get(hit.regcode)!, hit.score));
+  }
+
+  public findByRegistrationNumber(regNumber: string): RegistrySearchResult | null {
+    const normalized = this.normalize(regNumber);
+    const entry = this.getSnapshot().entries.get(normalized);
+    return entry ? toSearchResult(normalized, entry, 100) : null;
+  }
+
+  /**
+   * The register's own VAT number for the company, if it publishes one
+   */
+  public getVatNumber(regNumber: string, data: AggregateData | null): string | null {
+    return data?.vat_number ?? null;
+  }
+
+  public getDatasetVersions(): Record<string, DatasetVersion> {
+    const { loadStats } = this.getSnapshot();
+    return Object.fromEntries(
+      Object.entries(loadStats).map(([key, stats]) => [key, toDatasetVersion(this.datasets[key], this.sources[key], stats)])
+    );
+  }
+
+  public isReady(): boolean {
+    return this.snapshot !== null;
+  }
+
+  public getStats() {
+    return {
+      countryCode: this.countryCode,
+      registryCount: this.snapshot?.entries.size ?? 0,
+      nameIndexCount: this.snapshot?.nameIndex.size ?? 0,
+      loadStats: this.snapshot?.loadStats ?? {},
+      isInitialized: this.snapshot !== null,
+      loadedAt: this.snapshot?.loadedAt.toISOString() ?? null,
+      isReloading: this.reloadPromise !== null,
+      lastReloadError: this.lastReloadError,
+      sources: Object.fromEntries(
+        Object.entries(this.sources).map(([key, source]) => [key, source.location])
+      ),
+    };
+  }
+
+  private normalize(regNumber: string): string {
+    const validation = this.validateRegistrationNumber(regNumber);
+    return validation.valid ? validation.value : normalizeRegistrationNumber(regNumber, this.countryCode);
+  }
+}
+
+/**
+ * Convert a dd.mm.yyyy or ISO date to an ISO date; anything else is returned as is
+ */
+export function toIsoDate(value: string | undefined): string {
+  if (!value) return '';
+  const dotted = /^(\d{1,2})\.(\d{1,2})\.(\d{4})/.exec(value.trim());
+  if (dotted) {
+    return `${dotted[3]}-${dotted[2].padStart(2, '0')}-${dotted[1].padStart(2, '0')}`;
+  }
+  return /^\d{4}-\d{2}-\d{2}/.exec(value.trim())?.[0] ?? value.trim();
+}
+
+function toSearchResult(regcode: string, entry: RegistryEntry, score: number): RegistrySearchResult {
+  return {
+    registration_number: regcode,
+    name: entry.name,
+    address: entry.address,
+    is_active: entry.is_active,
+    score,
+  };
+}
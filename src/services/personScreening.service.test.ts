@@ -0,0 +1,89 @@
+import type { AggregateData, Officer } from './csvData.service';
+import type { SanctionCheckResult, SanctionsProvider } from './externalApi.service';
+import { LinkedPerson, PersonScreeningService } from './personScreening.service';
+
+const clear: SanctionCheckResult = {
+  status: 'clear',
+  error: null,
+  is_sanctioned: false,
+  sanction_details: null,
+  sanction_sources: [],
+  candidates: [],
+};
+
+const provider = (result: SanctionCheckResult = clear): SanctionsProvider & { checkPerson: jest.Mock } => ({
+  name: 'test',
+  checkCompany: jest.fn(async () => result),
+  checkPerson: jest.fn(async () => result),
+});
+
+const board = (size: number): LinkedPerson[] =>
+  Array.from({ length: size }, (_, i) => ({ name: `Person ${i + 1}`, birth_date: null, nationality: null, roles: ['BOARD_MEMBER'] }));
+
+const officer = (name: string): Officer => ({
+  name,
+  role: 'BOARD_MEMBER',
+  governing_body: 'BOARD',
+  entity_type: 'NATURAL_PERSON',
+  legal_entity_registration_number: '',
+  birth_date: '',
+  appointed_on: '2020-01-01',
+  is_liquidator: false,
+});
+
+// Only the fields collectLinkedPersons reads
+const linkedData = (data: Pick<AggregateData, 'beneficial_owners' | 'officers'>) => data as AggregateData;
+
+describe('PersonScreeningService.collectLinkedPersons', () => {
+  it('merges a person holding several roles', () => {
+    const persons = PersonScreeningService.collectLinkedPersons(linkedData({
+      beneficial_owners: [{
+        name: 'Jānis Bērziņš',
+        forename: 'Jānis',
+        surname: 'Bērziņš',
+        birth_date: '1965-03-12',
+        nationality: 'LV',
+        residence_country: 'LV',
+        registered_on: '2018-05-02',
+      }],
+      officers: [officer('JĀNIS BĒRZIŅŠ')],
+    }), { applicant_first_name: 'Anna', applicant_last_name: 'Ozola' });
+
+    expect(persons).toEqual([
+      { name: 'Anna Ozola', birth_date: null, nationality: null, roles: ['APPLICANT'] },
+      { name: 'Jānis Bērziņš', birth_date: '1965-03-12', nationality: 'LV', roles: ['BENEFICIAL_OWNER', 'BOARD_MEMBER'] },
+    ]);
+  });
+
+  it('returns every linked person, however many', () => {
+    const officers = board(30).map(({ name }) => officer(name));
+    expect(PersonScreeningService.collectLinkedPersons(linkedData({ beneficial_owners: [], officers }))).toHaveLength(30);
+  });
+});
+
+describe('PersonScreeningService.screen', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('screens every person when within the limit', async () => {
+    const sanctions = provider();
+    const summary = await PersonScreeningService.screen(board(3), sanctions);
+
+    expect(sanctions.checkPerson).toHaveBeenCalledTimes(3);
+    expect(summary).toMatchObject({ status: 'clear', skipped_persons: 0 });
+  });
+
+  it('marks the screening unavailable and counts the persons over the limit', async () => {
+    const sanctions = provider();
+    const summary = await PersonScreeningService.screen(board(30), sanctions);
+
+    expect(sanctions.checkPerson).toHaveBeenCalledTimes(25);
+    expect(summary.persons).toHaveLength(25);
+    expect(summary).toMatchObject({ status: 'unavailable', skipped_persons: 5 });
+  });
+});
@@ -0,0 +1,135 @@
+import type { AggregateData } from './csvData.service';
+import type { CheckStatus, SanctionsProvider } from './externalApi.service';
+import type { Tables } from '../types';
+import { normalizeCompanyName } from '../utils/companyName';
+import { PersonScreeningQuery, SanctionCandidate, summarizeCandidates } from '../utils/sanctionsMatch';
+
+/**
+ * A natural person linked to the company, with every role they hold
+ */
+export interface LinkedPerson extends PersonScreeningQuery {
+  /** APPLICANT, BENEFICIAL_OWNER or an officer position code such as BOARD_MEMBER */
+  roles: string[];
+}
+
+/**
+ * Screening outcome for one linked person
+ */
+export interface PersonScreeningResult {
+  name: string;
+  birth_date: string | null;
+  nationality: string | null;
+  roles: string[];
+  status: CheckStatus;
+  error: string | null;
+  is_pep: boolean;
+  is_sanctioned: boolean;
+  candidates: SanctionCandidate[];
+}
+
+/**
+ * Screening outcome for all linked persons
+ */
+export interface PersonScreeningSummary {
+  /** unavailable if any person could not be screened or was left out, hit if anyone had a hit */
+  status: CheckStatus;
+  is_pep: boolean;
+  has_sanctioned_person: boolean;
+  persons: PersonScreeningResult[];
+  /** Linked persons left unscreened because there were more than MAX_PERSONS */
+  skipped_persons: number;
+}
+
+/**
+ * Submission fields identifying the applicant
+ */
+export type ApplicantSummary = Pick<Tables<'kyb_submissions'>, 'applicant_first_name' | 'applicant_last_name'>;
+
+export class PersonScreeningService {
+  // Upper bound on screening calls per profile; anyone beyond it is left out and the screening is incomplete
+  private static readonly MAX_PERSONS = 25;
+
+  /**
+   * Collect the applicant, natural-person officers and beneficial owners, merging people
+   * who appear in several roles (same name, and same birth date where both are known)
+   */
+  public static collectLinkedPersons(localData: AggregateData | null, applicant?: ApplicantSummary): LinkedPerson[] {
+    const persons: LinkedPerson[] = [];
+
+    const add = (name: string, role: string, birthDate: string = '', nationality: string = '') => {
+      const key = normalizeCompanyName(name);
+      if (!key) return;
+      const birth_date = /^\d{4}(-\d{2}(-\d{2})?)?/.exec(birthDate)?.[0] || null;
+
+      const existing = persons.find((person) =>
+        normalizeCompanyName(person.name) === key
+        && (!person.birth_date || !birth_date || person.birth_date === birth_date)
+      );
+      if (existing) {
+        if (!existing.roles.includes(role)) existing.roles.push(role);
+        existing.birth_date = existing.birth_date || birth_date;
+        existing.nationality = existing.nationality || nationality || null;
+        return;
+      }
+
+      persons.push({ name: name.trim(), birth_date, nationality: nationality || null, roles: [role] });
+    };
+
+    const applicantName = [applicant?.applicant_first_name, applicant?.applicant_last_name].filter(Boolean).join(' ');
+    if (applicantName) {
+      add(applicantName, 'APPLICANT');
+    }
+
+    for (const owner of localData?.beneficial_owners || []) {
+      add(owner.name || `${owner.forename} ${owner.surname}`, 'BENEFICIAL_OWNER', owner.birth_date, owner.nationality);
+    }
+
+    for (const officer of localData?.officers || []) {
+      if (officer.entity_type === 'LEGAL_ENTITY') continue;
+      add(officer.name, officer.role || 'OFFICER', officer.birth_date);
+    }
+
+    return persons;
+  }
+
+  /**
+   * Screen the linked persons for sanctions and PEP status, up to MAX_PERSONS.
+   * When there are more, the rest are counted as skipped and the screening is unavailable.
+   */
+  public static async screen(persons: LinkedPerson[], provider: SanctionsProvider): Promise<PersonScreeningSummary> {
+    const screened = persons.slice(0, this.MAX_PERSONS);
+    const skipped = persons.length - screened.length;
+    if (skipped > 0) {
+      console.warn(`⚠️ ${persons.length} linked persons, screening only the first ${this.MAX_PERSONS}`);
+    }
+
+    const results = await Promise.all(screened.map(async (person): Promise<PersonScreeningResult> => {
+      const check = await provider.checkPerson(person);
+      const { isPep } = summarizeCandidates(check.candidates);
+
+      return {
+        name: person.name,
+        birth_date: person.birth_date || null,
+        nationality: person.nationality || null,
+        roles: person.roles,
+        status: check.status,
+        error: check.error,
+        is_pep: isPep,
+        is_sanctioned: check.is_sanctioned,
+        candidates: check.candidates,
+      };
+    }));
+
+    const status: CheckStatus = skipped > 0 || results.some((result) => result.status === 'unavailable')
+      ? 'unavailable'
+      : results.some((result) => result.status === 'hit') ? 'hit' : 'clear';
+
+    return {
+      status,
+      is_pep: results.some((result) => result.is_pep),
+      has_sanctioned_person: results.some((result) => result.is_sanctioned),
+      persons: results,
+      skipped_persons: skipped,
+    };
+  }
+}
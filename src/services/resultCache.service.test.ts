@@ -0,0 +1,134 @@
+import { cachedCall, cacheKey, combineProvenance, MemoryResultCache } from './resultCache.service';
+import { captureEvidence, EvidenceLog, withEvidenceLog } from '../utils/evidence';
+
+// Each test uses its own key, since the memory cache is shared by the whole module
+let keyCounter = 0;
+const nextKey = () => `lv|4000303294${keyCounter++}`;
+
+const viesCall = (valid: boolean) => jest.fn(() =>
+  captureEvidence('vies', 'check_vat', { countryCode: 'LV' }, async () => ({ valid, name: 'BALTIJAS NAFTA' }))
+);
+
+describe('cachedCall', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('calls the provider on a miss and serves the cached result on a hit', async () => {
+    const key = nextKey();
+    const call = viesCall(true);
+
+    const first = await cachedCall('vies', key, call);
+    const second = await cachedCall('vies', key, call);
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(second.value).toEqual(first.value);
+    expect(first.provenance.from_cache).toBe(false);
+    expect(second.provenance.from_cache).toBe(true);
+    expect(second.provenance.fetched_at >= first.provenance.fetched_at).toBe(true);
+  });
+
+  it('hands out copies, so a caller cannot change the cached result', async () => {
+    const key = nextKey();
+    const first = await cachedCall('vies', key, viesCall(true));
+    first.value.name = 'CHANGED';
+
+    const second = await cachedCall('vies', key, viesCall(true));
+    expect(second.value.name).toBe('BALTIJAS NAFTA');
+  });
+
+  it('calls the provider again on forceRefresh and caches the fresh result', async () => {
+    const key = nextKey();
+    await cachedCall('vies', key, viesCall(true));
+
+    const refreshed = await cachedCall('vies', key, viesCall(false), { forceRefresh: true });
+    const cached = await cachedCall('vies', key, viesCall(true));
+
+    expect(refreshed.provenance.from_cache).toBe(false);
+    expect(cached.value.valid).toBe(false);
+  });
+
+  it('does not cache providers without a TTL', async () => {
+    const key = nextKey();
+    const call = jest.fn(async () => ['listed']);
+
+    await cachedCall('local_sanctions', key, call);
+    await cachedCall('local_sanctions', key, call);
+
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache results the caller marks as not cacheable', async () => {
+    const key = nextKey();
+    const call = viesCall(false);
+    const options = { cacheable: (value: { valid: boolean }) => value.valid };
+
+    await cachedCall('vies', key, call, options);
+    await cachedCall('vies', key, call, options);
+
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays the evidence of the original call on a hit', async () => {
+    const key = nextKey();
+    const original = new EvidenceLog();
+    const replayed = new EvidenceLog();
+
+    await withEvidenceLog(original, () => cachedCall('vies', key, viesCall(true)));
+    await withEvidenceLog(replayed, () => cachedCall('vies', key, viesCall(true)));
+
+    expect(original.records).toHaveLength(1);
+    expect(original.records[0]).toMatchObject({ provider: 'vies', operation: 'check_vat', status: 'ok' });
+    expect(replayed.records).toEqual(original.records);
+  });
+
+  it('falls back to the provider when the cache fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(MemoryResultCache.prototype, 'get').mockRejectedValue(new Error('unavailable'));
+    const key = nextKey();
+    const call = viesCall(true);
+
+    await expect(cachedCall('vies', key, call)).resolves.toMatchObject({ value: { valid: true } });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryResultCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('drops entries once they expire', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    const cache = new MemoryResultCache();
+    await cache.set('vies', 'lv|40003032949', { valid: true }, [], 60000);
+
+    jest.setSystemTime(new Date('2026-10-19T12:00:59Z'));
+    expect(await cache.get('vies', 'lv|40003032949')).toMatchObject({ value: { valid: true } });
+
+    jest.setSystemTime(new Date('2026-10-19T12:01:00Z'));
+    expect(await cache.get('vies', 'lv|40003032949')).toBeNull();
+  });
+});
+
+describe('cacheKey', () => {
+  it('normalizes case and whitespace', () => {
+    expect(cacheKey('LV', ' 40003032949 ')).toBe('lv|40003032949');
+    expect(cacheKey('SIA  Baltijas\tNafta', null, undefined)).toBe('sia baltijas nafta||');
+  });
+});
+
+describe('combineProvenance', () => {
+  it('is from cache only when every part is, and as old as the oldest part', () => {
+    const combined = combineProvenance([
+      { from_cache: true, fetched_at: '2026-10-19T10:00:00.000Z', age_seconds: 7200 },
+      { from_cache: false, fetched_at: '2026-10-19T12:00:00.000Z', age_seconds: 0 },
+    ]);
+    expect(combined).toEqual({ from_cache: false, fetched_at: '2026-10-19T10:00:00.000Z', age_seconds: 7200 });
+    expect(combineProvenance([])).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+import { SupabaseService } from './supabase';
+import type { Json } from '../types';
+import { collectEvidence, EvidenceRecord, replayEvidence } from '../utils/evidence';
+
+/**
+ * A cached provider result
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** The provider calls that produced the value, replayed as the evidence of every profile using it */
+  evidence: EvidenceRecord[];
+  cached_at: string;
+  expires_at: string;
+}
+
+/**
+ * Storage for provider results, keyed by provider and normalized input
+ */
+export interface ResultCache {
+  readonly name: string;
+  /** The unexpired entry, or null */
+  get<T>(provider: string, key: string): Promise<CacheEntry<T> | null>;
+  set<T>(provider: string, key: string, value: T, evidence: EvidenceRecord[], ttlMs: number): Promise<void>;
+}
+
+/**
+ * Where a source result in a risk profile came from
+ */
+export interface CacheProvenance {
+  from_cache: boolean;
+  /** When the result was fetched from the provider */
+  fetched_at: string;
+  age_seconds: number;
+}
+
+/**
+ * Per-process cache; lost on restart and not shared between instances
+ */
+export class MemoryResultCache implements ResultCache {
+  public readonly name = 'memory';
+  private static readonly MAX_ENTRIES = 5000;
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(provider: string, key: string): Promise<CacheEntry<T> | null> {
+    const entryKey = `${provider}:${key}`;
+    const entry = this.entries.get(entryKey);
+    if (!entry) return null;
+    if (Date.parse(entry.expires_at) <= Date.now()) {
+      this.entries.delete(entryKey);
+      return null;
+    }
+    // Callers may modify what they get back, so hand out a copy
+    return { ...entry, value: clone(entry.value) as T, evidence: clone(entry.evidence) };
+  }
+
+  async set<T>(provider: string, key: string, value: T, evidence: EvidenceRecord[], ttlMs: number): Promise<void> {
+    const entryKey = `${provider}:${key}`;
+    this.entries.delete(entryKey);
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MemoryResultCache.MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    const now = Date.now();
+    this.entries.set(entryKey, {
+      value: clone(value),
+      evidence: clone(evidence),
+      cached_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlMs).toISOString(),
+    });
+  }
+}
+
+/**
+ * Cache in the result_cache table, shared by every instance and kept across restarts
+ */
+export class SupabaseResultCache implements ResultCache {
+  public readonly name = 'supabase';
+  private supabaseService = new SupabaseService();
+
+  async get<T>(provider: string, key: string): Promise<CacheEntry<T> | null> {
+    await this.supabaseService.signIn();
+
+    const { data, error } = await this.supabaseService.getClient()
+      .from('result_cache')
+      .select('value, evidence, cached_at, expires_at')
+      .eq('provider', provider)
+      .eq('cache_key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+
+    if (!data) return null;
+    return {
+      value: data.value as T,
+      evidence: (data.evidence ?? []) as unknown as EvidenceRecord[],
+      cached_at: data.cached_at,
+      expires_at: data.expires_at,
+    };
+  }
+
+  async set<T>(provider: string, key: string, value: T, evidence: EvidenceRecord[], ttlMs: number): Promise<void> {
+    await this.supabaseService.signIn();
+
+    const now = Date.now();
+    const { error } = await this.supabaseService.getClient()
+      .from('result_cache')
+      .upsert({
+        provider,
+        cache_key: key,
+        value: clone(value) as Json,
+        evidence: clone(evidence) as unknown as Json,
+        cached_at: new Date(now).toISOString(),
+        expires_at: new Date(now + ttlMs).toISOString(),
+      }, { onConflict: 'provider,cache_key' });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw new Error('Database query failed');
+    }
+  }
+}
+
+// How long results stay fresh per provider, in hours. Override with RESULT_CACHE_TTL_<PROVIDER>_HOURS; 0 disables caching.
+// Providers not listed (e.g. the in-memory local sanctions lists) are not cached.
+const TTL_HOURS: Record<string, number> = {
+  vies: 24,
+  opensanctions: 12,
+  adverse_media: 168,
+};
+
+/**
+ * Time to live for a provider's results, 0 when they are not cached
+ */
+export function getCacheTtlMs(provider: string): number {
+  const configured = process.env[`RESULT_CACHE_TTL_${provider.toUpperCase()}_HOURS`];
+  const hours = configured !== undefined && configured !== '' && !isNaN(Number(configured))
+    ? Number(configured)
+    : TTL_HOURS[provider] ?? 0;
+  return Math.max(0, hours) * 3600000;
+}
+
+let cache: ResultCache | null | undefined;
+
+/**
+ * Pick the cache from RESULT_CACHE: 'memory' (default), 'supabase' or 'disabled'
+ * @returns The cache, or null when caching is disabled
+ */
+export function getResultCache(): ResultCache | null {
+  if (cache !== undefined) return cache;
+
+  const configured = (process.env.RESULT_CACHE || 'memory').toLowerCase();
+  switch (configured) {
+    case 'disabled':
+      cache = null;
+      break;
+    case 'supabase':
+      cache = new SupabaseResultCache();
+      break;
+    case 'memory':
+      cache = new MemoryResultCache();
+      break;
+    default:
+      throw new Error(`Unknown result cache "${configured}". Expected one of: memory, supabase, disabled`);
+  }
+  return cache;
+}
+
+/**
+ * Cache key from the parts of a provider input, with case and whitespace normalized
+ * e.g. ('LV', ' 40003012345 ') → 'lv|40003012345'
+ */
+export function cacheKey(...parts: Array<string | null | undefined>): string {
+  return parts.map((part) => (part ?? '').trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+}
+
+export interface CachedCallOptions<T> {
+  /** Skip the cached result and call the provider; the fresh result replaces it */
+  forceRefresh?: boolean;
+  /** Whether a result may be cached; failed checks should not be */
+  cacheable?: (value: T) => boolean;
+}
+
+/**
+ * Return the provider's cached result for this input if it is still fresh, otherwise call it and cache the result.
+ * The evidence of the provider calls is cached with the result and replayed into the active evidence log on a hit,
+ * so every profile can be traced to what the source returned.
+ * A failing cache never fails the call: it falls back to the provider.
+ */
+export async function cachedCall<T>(
+  provider: string,
+  key: string,
+  call: () => Promise<T>,
+  options: CachedCallOptions<T> = {}
+): Promise<{ value: T; provenance: CacheProvenance }> {
+  const ttlMs = getCacheTtlMs(provider);
+  const resultCache = ttlMs > 0 ? getResultCache() : null;
+
+  if (resultCache && !options.forceRefresh) {
+    try {
+      const entry = await resultCache.get<T>(provider, key);
+      if (entry) {
+        console.log(`💾 Using cached ${provider} result from ${entry.cached_at}`);
+        replayEvidence(entry.evidence);
+        return { value: entry.value, provenance: toProvenance(true, entry.cached_at) };
+      }
+    } catch (error) {
+      console.warn(`⚠️ Result cache read failed for ${provider}:`, (error as Error).message);
+    }
+  }
+
+  const fetchedAt = new Date().toISOString();
+  if (!resultCache) {
+    return { value: await call(), provenance: toProvenance(false, fetchedAt) };
+  }
+  const { result: value, records } = await collectEvidence(call);
+
+  if (options.cacheable ? options.cacheable(value) : true) {
+    try {
+      await resultCache.set(provider, key, value, records, ttlMs);
+    } catch (error) {
+      console.warn(`⚠️ Result cache write failed for ${provider}:`, (error as Error).message);
+    }
+  }
+
+  return { value, provenance: toProvenance(false, fetchedAt) };
+}
+
+/**
+ * Provenance of a result assembled from several provider calls:
+ * from cache only when every part was, as old as its oldest part
+ */
+export function combineProvenance(parts: CacheProvenance[]): CacheProvenance | null {
+  if (parts.length === 0) return null;
+  const oldest = parts.reduce((a, b) => (a.fetched_at <= b.fetched_at ? a : b));
+  return {
+    from_cache: parts.every((part) => part.from_cache),
+    fetched_at: oldest.fetched_at,
+    age_seconds: oldest.age_seconds,
+  };
+}
+
+function toProvenance(fromCache: boolean, fetchedAt: string): CacheProvenance {
+  return {
+    from_cache: fromCache,
+    fetched_at: fetchedAt,
+    age_seconds: Math.max(0, Math.round((Date.now() - Date.parse(fetchedAt)) / 1000)),
+  };
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,166 @@
+import type { AggregateData, FinancialYear } from './csvData.service';
+import { ExternalCheckSummary, RiskScoringService } from './riskScoring.service';
+
+// An active company with nothing against it
+const company = (overrides: Partial<AggregateData> = {}): AggregateData => ({
+  name: 'SIA "Baltijas Nafta"',
+  address: 'Rīga, Brīvības iela 1, LV-1010',
+  registered: '2010-04-12',
+  type_text: 'Sabiedrība ar ierobežotu atbildību',
+  terminated: '',
+  is_active: true,
+  sepa: '',
+  regtype_text: 'Komercreģistrs',
+  type: 'SIA',
+  closed: '',
+  region: '',
+  city: 'Rīga',
+  rating: null,
+  explanation: null,
+  rating_updated_date: null,
+  tax_rating: null,
+  insolvency_proceedings: [],
+  has_insolvency_history: false,
+  has_open_insolvency: false,
+  proceeding_resolution_name: null,
+  proceeding_started_on: null,
+  proceeding_ended_on: null,
+  proceeding_form: null,
+  proceeding_type: null,
+  court_name: null,
+  beneficial_owners: [{
+    name: 'Jānis Bērziņš',
+    forename: 'Jānis',
+    surname: 'Bērziņš',
+    birth_date: '1965-03-12',
+    nationality: 'LV',
+    residence_country: 'LV',
+    registered_on: '2018-05-02',
+  }],
+  beneficial_owners_available: true,
+  officers: [],
+  officers_available: true,
+  financial_statements: [],
+  financial_statements_available: false,
+  vat_number: null,
+  ...overrides,
+});
+
+const checks = (overrides: Partial<ExternalCheckSummary> = {}): ExternalCheckSummary => ({
+  is_sanctioned: false,
+  sanctions_status: 'clear',
+  sanctions_error: null,
+  sanction_candidates: [],
+  person_screening: { status: 'clear', is_pep: false, has_sanctioned_person: false, persons: [], skipped_persons: 0 },
+  vies_address_comparison: null,
+  ...overrides,
+});
+
+describe('RiskScoringService.assess', () => {
+  it('clears a company with nothing against it', () => {
+    expect(RiskScoringService.assess(company(), checks())).toEqual({ level: 'LOW', score: 0, indicators: [] });
+  });
+
+  it('sends a profile with unscreened linked persons to review', () => {
+    const assessment = RiskScoringService.assess(company(), checks({
+      person_screening: { status: 'unavailable', is_pep: false, has_sanctioned_person: false, persons: [], skipped_persons: 5 },
+    }));
+
+    expect(assessment.level).toBe('PENDING_REVIEW');
+    expect(assessment.indicators).toEqual([
+      { code: 'PERSON_SCREENING_INCOMPLETE', description: '5 linked persons were not screened', points: 0 },
+    ]);
+  });
+});
+
+describe('RiskScoringService.assess financials', () => {
+  const filed = (figures: Partial<FinancialYear>): Partial<AggregateData> => ({
+    financial_statements_available: true,
+    financial_statements: [{
+      year: 2025,
+      year_ended_on: '2025-12-31',
+      employees: 10,
+      revenue: 100000,
+      net_income: 5000,
+      equity: 40000,
+      total_assets: 90000,
+      ...figures,
+    }],
+  });
+  const codes = (assessment: { indicators: Array<{ code: string }> }) => assessment.indicators.map((indicator) => indicator.code);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('flags negative equity in the latest statement', () => {
+    const assessment = RiskScoringService.assess(company(filed({ equity: -15000 })), checks());
+
+    expect(assessment.indicators).toEqual([
+      { code: 'NEGATIVE_EQUITY', description: 'Negative equity of -15000 EUR in 2025', points: 25 },
+    ]);
+  });
+
+  it('flags declared payments above three times the reported revenue', () => {
+    const over = RiskScoringService.assess(company(filed({ revenue: 100000 })), checks(), {
+      incoming_payments_monthly_euro: '25000-30000',
+    });
+    const within = RiskScoringService.assess(company(filed({ revenue: 100000 })), checks(), {
+      incoming_payments_monthly_euro: '25000',
+    });
+
+    expect(over.indicators).toEqual([{
+      code: 'PAYMENTS_EXCEED_REVENUE',
+      description: 'Declared incoming payments of 360000 EUR/year exceed 3x reported 2025 revenue of 100000 EUR',
+      points: 20,
+    }]);
+    expect(codes(within)).toEqual([]);
+  });
+
+  it('flags an established company without recent statements', () => {
+    expect(codes(RiskScoringService.assess(company(filed({ year: 2022 })), checks()))).toEqual(['NO_RECENT_FINANCIAL_STATEMENTS']);
+    expect(codes(RiskScoringService.assess(company({ financial_statements_available: true }), checks())))
+      .toEqual(['NO_RECENT_FINANCIAL_STATEMENTS']);
+  });
+});
+
+describe('RiskScoringService.addAdverseMedia', () => {
+  const finding = (severity: 'low' | 'medium' | 'high' | 'critical', article = 1) => ({
+    article,
+    url: `https://example.lv/${article}`,
+    category: 'corruption' as const,
+    severity,
+    quote: 'kukuļa pieņemšanu',
+  });
+
+  it('scores the most severe finding and raises the level', () => {
+    const assessment = RiskScoringService.addAdverseMedia(
+      { level: 'LOW', score: 10, indicators: [{ code: 'YOUNG_COMPANY', description: 'Registered recently', points: 10 }] },
+      [finding('medium', 1), finding('high', 2)]
+    );
+
+    expect(assessment.score).toBe(40);
+    expect(assessment.level).toBe('MEDIUM');
+    expect(assessment.indicators[1]).toEqual({
+      code: 'ADVERSE_MEDIA',
+      description: 'Adverse media in 2 articles: corruption',
+      points: 30,
+    });
+  });
+
+  it('keeps a pending review unless the findings make the profile high risk', () => {
+    const pending = { level: 'PENDING_REVIEW', score: 0, indicators: [] };
+
+    expect(RiskScoringService.addAdverseMedia(pending, [finding('low')]).level).toBe('PENDING_REVIEW');
+    expect(RiskScoringService.addAdverseMedia(pending, [finding('critical')]).level).toBe('HIGH');
+  });
+
+  it('leaves the assessment unchanged without findings', () => {
+    expect(RiskScoringService.addAdverseMedia({ level: 'LOW', score: 0, indicators: [] }, []))
+      .toEqual({ level: 'LOW', score: 0, indicators: [] });
+  });
+});
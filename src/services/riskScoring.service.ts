@@ -0,0 +1,301 @@
+import type { AggregateData } from './csvData.service';
+import type { CheckStatus } from './externalApi.service';
+import type { PersonScreeningSummary } from './personScreening.service';
+import type { Tables } from '../types';
+import { FinancialsService } from './financials.service';
+import { TaxRatingGrade } from '../utils/taxRating';
+import type { SanctionCandidate } from '../utils/sanctionsMatch';
+import type { AddressComparison } from '../utils/address';
+import type { AdverseMediaFinding, FindingSeverity } from '../utils/adverseMediaAnalysis';
+
+/**
+ * PENDING_REVIEW: the score alone would be LOW or MEDIUM, but the sanctions check
+ * or person screening could not be completed or returned possible matches, so the company cannot be
+ * cleared automatically
+ */
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | 'PENDING_REVIEW';
+
+/**
+ * A single reason that contributed to the risk score
+ */
+export interface RiskIndicator {
+  code: string;
+  description: string;
+  points: number;
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  score: number;
+  indicators: RiskIndicator[];
+}
+
+/**
+ * External check results used for scoring
+ */
+export interface ExternalCheckSummary {
+  is_sanctioned: boolean;
+  sanctions_status: CheckStatus;
+  sanctions_error: string | null;
+  sanction_candidates: SanctionCandidate[];
+  person_screening: PersonScreeningSummary;
+  /** VIES address compared with the registered address, when both are known */
+  vies_address_comparison: AddressComparison | null;
+}
+
+/**
+ * Submission fields used for scoring
+ */
+export type SubmissionSummary = Pick<Tables<'kyb_submissions'>, 'incoming_payments_monthly_euro'>;
+
+export class RiskScoringService {
+  // Declared yearly payment volume above this multiple of reported revenue is flagged
+  private static readonly PAYMENT_TO_REVENUE_RATIO = 3;
+  /**
+   * Calculate overall risk level based on all data sources
+   * @param localData - Registry data, or null if the company is not in the registry
+   * @param apiResults - Results of the external API checks
+   * @param submission - KYB submission with the applicant's declared figures
+   * @returns Risk level, total score and every indicator that fired
+   */
+  public static assess(
+    localData: AggregateData | null,
+    apiResults: ExternalCheckSummary,
+    submission?: SubmissionSummary
+  ): RiskAssessment {
+    const indicators: RiskIndicator[] = [];
+    const add = (code: string, description: string, points: number) => {
+      indicators.push({ code, description, points });
+    };
+
+    // Terminated or unknown companies: +30
+    if (!localData) {
+      add('NOT_IN_REGISTRY', 'Company not found in the registry', 30);
+    } else if (!localData.is_active) {
+      add('TERMINATED', localData.terminated ? `Company terminated on ${localData.terminated}` : 'Company is no longer registered', 30);
+    }
+
+    // Open insolvency proceeding: +40, past proceedings only: +15
+    if (localData?.has_open_insolvency) {
+      add('OPEN_INSOLVENCY', 'Company is in an open insolvency proceeding', 40);
+    } else if (localData?.has_insolvency_history) {
+      add('INSOLVENCY_HISTORY', 'Company has past insolvency proceedings', 15);
+    }
+
+    // Sanctioned: +50 (critical)
+    if (apiResults.is_sanctioned) {
+      add('SANCTIONED', 'Company matches a sanctions list entry', 50);
+    }
+
+    // Hit on a debarment, crime or other watchlist: +30
+    const watchlistHits = apiResults.sanction_candidates.filter(
+      (candidate) => candidate.classification === 'hit' && candidate.topic_category !== 'sanction'
+    );
+    if (watchlistHits.length > 0) {
+      add(
+        'WATCHLIST_MATCH',
+        `Company matches ${watchlistHits.map((candidate) => `${candidate.caption} (${candidate.topic_category})`).join(', ')}`,
+        30
+      );
+    }
+
+    // Sanctions check did not run: no points, but the company cannot be cleared
+    const sanctionsUnavailable = apiResults.sanctions_status === 'unavailable';
+    if (sanctionsUnavailable) {
+      add('SANCTIONS_CHECK_UNAVAILABLE', `Sanctions check unavailable: ${apiResults.sanctions_error || 'unknown error'}`, 0);
+    }
+
+    // Possible matches: no points until an analyst confirms them, but the company cannot be cleared
+    const possibleMatches = apiResults.sanction_candidates.filter((candidate) => candidate.classification === 'possible_match');
+    if (possibleMatches.length > 0) {
+      add(
+        'POSSIBLE_SANCTIONS_MATCH',
+        `Possible match with ${possibleMatches.map((candidate) => candidate.caption).join(', ')} needs review`,
+        0
+      );
+    }
+
+    const personReview = RiskScoringService.assessPersons(apiResults.person_screening, add);
+
+    // VAT address differs from the registered address: +10
+    if (apiResults.vies_address_comparison && !apiResults.vies_address_comparison.matches) {
+      add('VIES_ADDRESS_MISMATCH', 'VAT (VIES) address differs from the registered address', 10);
+    }
+
+    // Tax rating by grade: C +20, B +10, N (not yet rated) +5
+    const taxRating = localData?.tax_rating;
+    const taxRatingPoints: Partial<Record<TaxRatingGrade, number>> = {
+      [TaxRatingGrade.C]: 20,
+      [TaxRatingGrade.B]: 10,
+      [TaxRatingGrade.N]: 5,
+    };
+    if (taxRating && taxRatingPoints[taxRating.grade]) {
+      add(
+        `TAX_RATING_${taxRating.grade}`,
+        `Tax rating ${taxRating.grade}: ${taxRating.meaning}${taxRating.is_stale ? ' (stale)' : ''}`,
+        taxRatingPoints[taxRating.grade]!
+      );
+    }
+
+    // No beneficial owner registered: +20 (only when the dataset is loaded)
+    if (localData && localData.beneficial_owners_available && localData.beneficial_owners.length === 0) {
+      add('NO_BENEFICIAL_OWNER', 'No beneficial owner registered', 20);
+    }
+
+    // Liquidator appointed: +30 (company is being wound up)
+    const liquidators = localData?.officers.filter((officer) => officer.is_liquidator) || [];
+    if (liquidators.length > 0) {
+      add('LIQUIDATOR_APPOINTED', `Liquidator appointed: ${liquidators.map((officer) => officer.name).join(', ')}`, 30);
+    }
+
+    if (localData?.financial_statements_available) {
+      RiskScoringService.assessFinancials(localData, submission, add);
+    }
+
+    const score = indicators.reduce((total, indicator) => total + indicator.points, 0);
+    let level = RiskScoringService.getRiskLevel(score);
+    const needsReview = sanctionsUnavailable || possibleMatches.length > 0 || personReview;
+    if (needsReview && (level === 'LOW' || level === 'MEDIUM')) {
+      level = 'PENDING_REVIEW';
+    }
+
+    return { level, score, indicators };
+  }
+
+  /**
+   * Sanctions and PEP findings on the applicant, officers and beneficial owners
+   * @returns Whether an analyst must review the persons before the company can be cleared
+   */
+  private static assessPersons(
+    screening: PersonScreeningSummary,
+    add: (code: string, description: string, points: number) => void
+  ): boolean {
+    const describe = (persons: PersonScreeningSummary['persons']) =>
+      persons.map((person) => `${person.name} (${person.roles.join(', ')})`).join(', ');
+
+    // Sanctioned linked person: +50 (critical)
+    const sanctioned = screening.persons.filter((person) => person.is_sanctioned);
+    if (sanctioned.length > 0) {
+      add('SANCTIONED_PERSON', `Sanctioned linked person: ${describe(sanctioned)}`, 50);
+    }
+
+    // Linked person on a debarment or crime list: +30
+    const watchlisted = screening.persons.filter((person) => person.candidates.some((candidate) =>
+      candidate.classification === 'hit' && candidate.topic_category !== 'sanction' && candidate.topic_category !== 'pep'
+    ));
+    if (watchlisted.length > 0) {
+      add('PERSON_WATCHLIST_MATCH', `Linked person on a watchlist: ${describe(watchlisted)}`, 30);
+    }
+
+    // Politically exposed linked person: +25
+    const peps = screening.persons.filter((person) => person.is_pep);
+    if (peps.length > 0) {
+      add('PEP', `Politically exposed linked person: ${describe(peps)}`, 25);
+    }
+
+    // Possible matches and failed checks: no points, but need review
+    const possible = screening.persons.filter((person) =>
+      person.candidates.some((candidate) => candidate.classification === 'possible_match')
+    );
+    if (possible.length > 0) {
+      add('POSSIBLE_PERSON_MATCH', `Possible list match needs review: ${describe(possible)}`, 0);
+    }
+
+    const unavailable = screening.persons.filter((person) => person.status === 'unavailable');
+    if (unavailable.length > 0) {
+      add('PERSON_SCREENING_UNAVAILABLE', `Person screening unavailable: ${describe(unavailable)}`, 0);
+    }
+
+    if (screening.skipped_persons > 0) {
+      add('PERSON_SCREENING_INCOMPLETE', `${screening.skipped_persons} linked persons were not screened`, 0);
+    }
+
+    return possible.length > 0 || unavailable.length > 0 || screening.skipped_persons > 0;
+  }
+
+  /**
+   * Financial red flags from the annual statements
+   */
+  private static assessFinancials(
+    localData: AggregateData,
+    submission: SubmissionSummary | undefined,
+    add: (code: string, description: string, points: number) => void
+  ): void {
+    const financials = FinancialsService.summarize(localData.financial_statements);
+    const currentYear = new Date().getFullYear();
+
+    // Negative equity in the latest statement: +25
+    if (financials?.equity != null && financials.equity < 0) {
+      add('NEGATIVE_EQUITY', `Negative equity of ${financials.equity} EUR in ${financials.latest_year}`, 25);
+    }
+
+    // Active company registered over two years ago without statements for the last two years: +15
+    const registeredYear = Number(localData.registered.slice(0, 4));
+    const latestYear = financials?.latest_year ?? null;
+    if (localData.is_active && registeredYear > 0 && registeredYear < currentYear - 2
+      && (latestYear === null || latestYear < currentYear - 2)) {
+      add(
+        'NO_RECENT_FINANCIAL_STATEMENTS',
+        latestYear === null
+          ? 'No annual financial statements filed'
+          : `No annual financial statements filed since ${latestYear}`,
+        15
+      );
+    }
+
+    // Declared payment volume far above reported revenue: +20
+    const declaredMonthly = FinancialsService.parseDeclaredAmount(submission?.incoming_payments_monthly_euro);
+    if (declaredMonthly !== null && financials?.revenue != null && financials.revenue >= 0) {
+      const declaredYearly = declaredMonthly * 12;
+      if (declaredYearly > financials.revenue * RiskScoringService.PAYMENT_TO_REVENUE_RATIO) {
+        add(
+          'PAYMENTS_EXCEED_REVENUE',
+          `Declared incoming payments of ${declaredYearly} EUR/year exceed ${RiskScoringService.PAYMENT_TO_REVENUE_RATIO}x ` +
+            `reported ${financials.latest_year} revenue of ${financials.revenue} EUR`,
+          20
+        );
+      }
+    }
+  }
+
+  /**
+   * Add adverse media findings to an assessment made before the background adverse media stage finished.
+   * Scored by the most severe finding: critical +50, high +30, medium +15, low +5.
+   * A profile already pending review stays so unless the findings raise it to HIGH or CRITICAL.
+   */
+  public static addAdverseMedia(
+    assessment: { level: string; score: number; indicators: RiskIndicator[] },
+    findings: AdverseMediaFinding[]
+  ): RiskAssessment {
+    const points: Record<FindingSeverity, number> = { low: 5, medium: 15, high: 30, critical: 50 };
+    const indicators = [...assessment.indicators];
+    if (findings.length > 0) {
+      const severest = Math.max(...findings.map((finding) => points[finding.severity]));
+      const categories = Array.from(new Set(findings.map((finding) => finding.category)));
+      const articles = new Set(findings.map((finding) => finding.article)).size;
+      indicators.push({
+        code: 'ADVERSE_MEDIA',
+        description: `Adverse media in ${articles} article${articles === 1 ? '' : 's'}: ${categories.join(', ')}`,
+        points: severest,
+      });
+    }
+
+    const score = indicators.reduce((total, indicator) => total + indicator.points, 0);
+    let level = RiskScoringService.getRiskLevel(score);
+    if (assessment.level === 'PENDING_REVIEW' && (level === 'LOW' || level === 'MEDIUM')) {
+      level = 'PENDING_REVIEW';
+    }
+
+    return { level, score, indicators };
+  }
+
+  /**
+   * Map a score to a risk level
+   */
+  public static getRiskLevel(score: number): RiskLevel {
+    if (score >= 80) return 'CRITICAL';
+    if (score >= 50) return 'HIGH';
+    if (score >= 25) return 'MEDIUM';
+    return 'LOW';
+  }
+}
@@ -0,0 +1,105 @@
+import path from 'path';
+import { LocalSanctionsService } from './sanctionsList.service';
+
+const FIXTURES = path.join(__dirname, '../../test/fixtures/sanctions');
+
+describe('LocalSanctionsService', () => {
+  let service: LocalSanctionsService;
+  const entity = (id: string) => service['index']!.entities.find((listed) => listed.id === id);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const saved = process.env;
+    process.env = { ...saved, SANCTIONS_DATA_DIR: FIXTURES };
+    service = LocalSanctionsService.getInstance();
+    await service.reload();
+    process.env = saved;
+  });
+
+  afterAll(() => {
+    LocalSanctionsService['instance'] = null;
+    jest.restoreAllMocks();
+  });
+
+  it('loads the screened entities of every list file', () => {
+    expect(service.getStats()).toMatchObject({
+      entityCount: 6,
+      files: { 'entities.ftm.json': 2, 'eu_fsf.xml': 2, 'un_consolidated.xml': 2 },
+    });
+  });
+
+  it('reads FollowTheMoney names, aliases, countries and identifiers, skipping other schemas and nameless entities', () => {
+    expect(entity('NK-severnaya-neft')).toEqual({
+      id: 'NK-severnaya-neft',
+      caption: 'Severnaya Neft Trading LLC',
+      schema: 'Company',
+      names: ['Severnaya Neft Trading LLC', 'ООО "Северная Нефть Трейдинг"'],
+      topics: ['sanction'],
+      datasets: ['eu_fsf', 'us_ofac_sdn'],
+      countries: ['ru'],
+      source_urls: ['https://example.org/sanctions/severnaya-neft'],
+      registration_numbers: ['1027700132195', '7707083893'],
+      birth_dates: [],
+    });
+    expect(entity('NK-sidorov-address')).toBeUndefined();
+    expect(entity('NK-unnamed')).toBeUndefined();
+  });
+
+  it('reads EU entries, keeping identifiers of companies only and dropping unknown countries', () => {
+    expect(entity('eu-fsf-130001')).toMatchObject({
+      caption: 'Volga Industrial Export JSC',
+      schema: 'Organization',
+      names: ['Volga Industrial Export JSC', 'АО Волга Индастриал Экспорт'],
+      countries: ['ru'],
+      source_urls: ['https://eur-lex.europa.eu/legal-content/EN/TXT/?uri=OJ:L:2022:110:FULL', 'https://webgate.ec.europa.eu/fsd/fsf'],
+      registration_numbers: ['LV40103999991'],
+    });
+    expect(entity('eu-fsf-130002')).toMatchObject({
+      schema: 'Person',
+      countries: ['ru'],
+      registration_numbers: [],
+      birth_dates: ['1971-09-03'],
+    });
+  });
+
+  it('reads UN individuals and entities with their aliases and birth dates', () => {
+    expect(entity('un-6900001')).toMatchObject({
+      caption: 'KARIM AZIZ HADDAD',
+      schema: 'Person',
+      names: ['KARIM AZIZ HADDAD', 'Abu Karim'],
+      birth_dates: ['1975-02-20', '1974'],
+    });
+    expect(entity('un-6900002')).toMatchObject({
+      schema: 'Organization',
+      names: ['CRESCENT RELIEF FOUNDATION', 'Crescent Aid Society'],
+    });
+  });
+
+  it('finds a company by a listed alias in another script', () => {
+    const [candidate] = service.findCandidates({ name: 'SIA "Severnaya Neft Trading"' });
+
+    expect(candidate).toMatchObject({ id: 'NK-severnaya-neft', classification: 'hit' });
+    expect(service.findCandidates({ name: 'ООО Северная Нефть Трейдинг' })[0].id).toBe('NK-severnaya-neft');
+  });
+
+  it('finds a company by its registration number even under another name', () => {
+    const [byNumber] = service.findCandidates({ name: 'Baltijas Nafta', registration_number: '1027700132195' });
+    const [withCountry] = service.findCandidates({ name: 'Baltijas Nafta', registration_number: '40103999991', country: 'LV' });
+
+    expect(byNumber).toMatchObject({ id: 'NK-severnaya-neft', classification: 'hit' });
+    expect(byNumber.evidence.identifier_match).toBe(true);
+    expect(withCountry.id).toBe('eu-fsf-130001');
+  });
+
+  it('keeps persons and companies apart', () => {
+    expect(service.findCandidates({ name: 'Olga Vetrova' }, (schema) => schema !== 'Person')).toEqual([]);
+    expect(service.findPersonCandidates({ name: 'Olga Vetrova', birth_date: '1971-09-03' })[0]).toMatchObject({
+      id: 'eu-fsf-130002',
+      birth_dates: ['1971-09-03'],
+    });
+  });
+
+  it('returns nothing for a name sharing no token with the lists', () => {
+    expect(service.findCandidates({ name: 'Daugavas Koks' })).toEqual([]);
+  });
+});
@@ -0,0 +1,449 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { XMLParser } from 'fast-xml-parser';
+import { normalizeCompanyName } from '../utils/companyName';
+import { nameSimilarity } from '../utils/nameMatching';
+import {
+  classifyCandidate,
+  CompanyScreeningQuery,
+  MatchEvidence,
+  normalizeIdentifier,
+  PersonScreeningQuery,
+  SanctionCandidate,
+  weighEvidence,
+  weighPersonEvidence,
+} from '../utils/sanctionsMatch';
+import { ExternalApiService } from './externalApi.service';
+import type { SanctionCheckResult, SanctionsProvider } from './externalApi.service';
+
+/**
+ * One listed entity, merged from any of the supported list formats
+ */
+export interface SanctionedEntity {
+  id: string;
+  caption: string;
+  /** FollowTheMoney schema: Person, Company, Organization, LegalEntity, ... */
+  schema: string;
+  names: string[];
+  topics: string[];
+  datasets: string[];
+  countries: string[];
+  source_urls: string[];
+  /** Registration, tax and similar identifiers */
+  registration_numbers: string[];
+  /** Birth dates of persons, yyyy-mm-dd or yyyy */
+  birth_dates: string[];
+}
+
+interface SanctionsIndex {
+  entities: SanctionedEntity[];
+  /** Every normalized name or alias with the entity it belongs to */
+  names: Array<{ entity: number; name: string }>;
+  /** First three letters of each name token → positions in `names` */
+  blocks: Map<string, number[]>;
+  /** Normalized identifier → entity positions */
+  identifiers: Map<string, number[]>;
+  loadedAt: Date;
+  files: Record<string, number>;
+}
+
+// FollowTheMoney schemas worth screening against; addresses, vessels etc. are skipped
+const SCREENED_SCHEMAS = new Set(['Person', 'Company', 'Organization', 'LegalEntity', 'PublicBody']);
+const PERSON_SCHEMAS = new Set(['Person']);
+
+const EU_FSF_URL = 'https://webgate.ec.europa.eu/fsd/fsf';
+const UN_LIST_URL = 'https://scsanctions.un.org/resources/xml/en/consolidated.xml';
+
+/**
+ * Offline sanctions screening against list files loaded into memory.
+ *
+ * Supported files in SANCTIONS_DATA_DIR (default ./data/sanctions), each optional:
+ * - SANCTIONS_FTM_FILE (entities.ftm.json): OpenSanctions bulk FollowTheMoney export, one JSON entity per line
+ * - SANCTIONS_EU_FILE (eu_fsf.xml): EU consolidated financial sanctions list, XML 1.1
+ * - SANCTIONS_UN_FILE (un_consolidated.xml): UN Security Council consolidated list
+ */
+export class LocalSanctionsService implements SanctionsProvider {
+  private static instance: LocalSanctionsService | null = null;
+  private index: SanctionsIndex | null = null;
+  private reloadPromise: Promise<void> | null = null;
+
+  // Minimum similarity to return a candidate at all; hit / possible match thresholds are per topic
+  private static readonly CANDIDATE_THRESHOLD = 0.5;
+  private static readonly MAX_CANDIDATES = 10;
+
+  public readonly name = 'local';
+
+  private constructor() {
+    // Private constructor for Singleton pattern
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): LocalSanctionsService {
+    if (!LocalSanctionsService.instance) {
+      LocalSanctionsService.instance = new LocalSanctionsService();
+    }
+    return LocalSanctionsService.instance;
+  }
+
+  /**
+   * Load the configured list files into a fresh index and swap it in.
+   * If loading fails, the previous index stays in place and the error is rethrown.
+   */
+  public reload(): Promise<void> {
+    if (!this.reloadPromise) {
+      this.reloadPromise = this.buildIndex()
+        .then((index) => {
+          this.index = index;
+          console.log(`✓ Local sanctions lists loaded: ${index.entities.length} entities, ${index.names.length} names`);
+        })
+        .finally(() => {
+          this.reloadPromise = null;
+        });
+    }
+    return this.reloadPromise;
+  }
+
+  public isReady(): boolean {
+    return this.index !== null && this.index.entities.length > 0;
+  }
+
+  public getStats() {
+    return {
+      entityCount: this.index?.entities.length ?? 0,
+      nameCount: this.index?.names.length ?? 0,
+      files: this.index?.files ?? {},
+      loadedAt: this.index?.loadedAt.toISOString() ?? null,
+      isReloading: this.reloadPromise !== null,
+    };
+  }
+
+  /**
+   * Screen a company against the loaded lists
+   */
+  public async checkCompany(query: CompanyScreeningQuery): Promise<SanctionCheckResult> {
+    const companyName = query.name;
+    if (!this.isReady()) {
+      return this.unavailableResult();
+    }
+
+    console.log(`🔍 Screening "${companyName}" against local sanctions lists`);
+    const candidates = this.findCandidates(query, (schema) => !PERSON_SCHEMAS.has(schema));
+    return ExternalApiService.buildSanctionCheckResult(companyName, candidates);
+  }
+
+  /**
+   * Screen a natural person against the loaded lists
+   */
+  public async checkPerson(query: PersonScreeningQuery): Promise<SanctionCheckResult> {
+    if (!this.isReady()) {
+      return this.unavailableResult();
+    }
+
+    console.log(`🔍 Screening person "${query.name}" against local sanctions lists`);
+    return ExternalApiService.buildSanctionCheckResult(query.name, this.findPersonCandidates(query));
+  }
+
+  private unavailableResult(): SanctionCheckResult {
+    console.warn('⚠️ No local sanctions lists loaded. Cannot screen offline.');
+    return {
+      status: 'unavailable',
+      error: 'No local sanctions lists loaded',
+      is_sanctioned: false,
+      sanction_details: null,
+      sanction_sources: [],
+      candidates: []
+    };
+  }
+
+  /**
+   * Score and classify listed entities against a company, best first.
+   * Entities carrying the query's registration number are always included.
+   * @param schemaFilter - Only consider entities whose schema passes this filter
+   */
+  public findCandidates(
+    query: CompanyScreeningQuery,
+    schemaFilter: (schema: string) => boolean = () => true
+  ): SanctionCandidate[] {
+    if (!this.index) return [];
+    const { entities, identifiers } = this.index;
+    const best = this.scoreNames(query.name, schemaFilter);
+
+    // Identifier matches are decisive even when the listed name differs
+    if (query.registration_number) {
+      const ours = normalizeIdentifier(query.registration_number);
+      const withCountry = query.country ? `${query.country.toUpperCase()}${ours}` : ours;
+      for (const entity of [...(identifiers.get(ours) || []), ...(identifiers.get(withCountry) || [])]) {
+        if (!best.has(entity) && schemaFilter(entities[entity].schema)) {
+          best.set(entity, { score: 0, name: entities[entity].caption });
+        }
+      }
+    }
+
+    return this.toCandidates(best, (nameScore, entity) => weighEvidence(nameScore, entity, query));
+  }
+
+  /**
+   * Score and classify listed persons against a natural person, best first
+   */
+  public findPersonCandidates(query: PersonScreeningQuery): SanctionCandidate[] {
+    const best = this.scoreNames(query.name, (schema) => PERSON_SCHEMAS.has(schema));
+    return this.toCandidates(best, (nameScore, entity) => weighPersonEvidence(nameScore, entity, query));
+  }
+
+  /**
+   * Best name similarity per entity, for entities above CANDIDATE_THRESHOLD
+   */
+  private scoreNames(name: string, schemaFilter: (schema: string) => boolean): Map<number, { score: number; name: string }> {
+    const best = new Map<number, { score: number; name: string }>();
+    if (!this.index) return best;
+    const { entities, names, blocks } = this.index;
+
+    const query = normalizeCompanyName(name);
+    if (!query) return best;
+
+    // Only compare names sharing a token prefix with the query
+    const positions = new Set<number>();
+    for (const token of query.split(' ')) {
+      for (const position of blocks.get(token.slice(0, 3)) || []) {
+        positions.add(position);
+      }
+    }
+
+    for (const position of positions) {
+      const { entity, name: listedName } = names[position];
+      if (!schemaFilter(entities[entity].schema)) continue;
+
+      const score = nameSimilarity(query, listedName);
+      if (score >= LocalSanctionsService.CANDIDATE_THRESHOLD && score > (best.get(entity)?.score ?? 0)) {
+        best.set(entity, { score, name: listedName });
+      }
+    }
+
+    return best;
+  }
+
+  private toCandidates(
+    best: Map<number, { score: number; name: string }>,
+    weigh: (nameScore: number, entity: SanctionedEntity) => { score: number; evidence: MatchEvidence }
+  ): SanctionCandidate[] {
+    const entities = this.index?.entities || [];
+
+    return Array.from(best.entries())
+      .map(([entityIndex, { score: nameScore, name: matchedName }]) => {
+        const entity = entities[entityIndex];
+        const { score, evidence } = weigh(Math.round(nameScore * 1000) / 1000, entity);
+        return {
+          id: entity.id,
+          caption: entity.caption,
+          schema: entity.schema,
+          score,
+          matched_name: matchedName,
+          datasets: entity.datasets,
+          topics: entity.topics,
+          countries: entity.countries,
+          source_urls: entity.source_urls,
+          registration_numbers: entity.registration_numbers,
+          ...(PERSON_SCHEMAS.has(entity.schema) ? { birth_dates: entity.birth_dates } : {}),
+          evidence,
+          ...classifyCandidate(score, entity.topics, evidence.identifier_match),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LocalSanctionsService.MAX_CANDIDATES);
+  }
+
+  private async buildIndex(): Promise<SanctionsIndex> {
+    const dataDir = process.env.SANCTIONS_DATA_DIR || './data/sanctions';
+    const loaders: Array<[string, (filePath: string) => Promise<SanctionedEntity[]>]> = [
+      [process.env.SANCTIONS_FTM_FILE || 'entities.ftm.json', (filePath) => this.loadFollowTheMoney(filePath)],
+      [process.env.SANCTIONS_EU_FILE || 'eu_fsf.xml', (filePath) => this.loadEuList(filePath)],
+      [process.env.SANCTIONS_UN_FILE || 'un_consolidated.xml', (filePath) => this.loadUnList(filePath)],
+    ];
+
+    const index: SanctionsIndex = {
+      entities: [],
+      names: [],
+      blocks: new Map(),
+      identifiers: new Map(),
+      loadedAt: new Date(),
+      files: {},
+    };
+
+    for (const [fileName, load] of loaders) {
+      const filePath = path.join(dataDir, fileName);
+      if (!fs.existsSync(filePath)) {
+        console.warn(`⚠️ Sanctions list ${filePath} not found, skipping`);
+        continue;
+      }
+
+      const entities = await load(filePath);
+      index.files[fileName] = entities.length;
+      for (const entity of entities) {
+        this.addToIndex(index, entity);
+      }
+      console.log(`✓ Loaded ${entities.length} entities from ${fileName}`);
+    }
+
+    return index;
+  }
+
+  private addToIndex(index: SanctionsIndex, entity: SanctionedEntity): void {
+    const entityIndex = index.entities.length;
+    index.entities.push(entity);
+
+    for (const identifier of new Set(entity.registration_numbers.map(normalizeIdentifier).filter(Boolean))) {
+      const positions = index.identifiers.get(identifier);
+      if (positions) {
+        positions.push(entityIndex);
+      } else {
+        index.identifiers.set(identifier, [entityIndex]);
+      }
+    }
+
+    for (const name of new Set(entity.names.map((raw) => normalizeCompanyName(raw)).filter(Boolean))) {
+      const position = index.names.length;
+      index.names.push({ entity: entityIndex, name });
+
+      for (const block of new Set(name.split(' ').map((token) => token.slice(0, 3)))) {
+        const positions = index.blocks.get(block);
+        if (positions) {
+          positions.push(position);
+        } else {
+          index.blocks.set(block, [position]);
+        }
+      }
+    }
+  }
+
+  /**
+   * OpenSanctions bulk export: one FollowTheMoney entity JSON per line
+   */
+  private async loadFollowTheMoney(filePath: string): Promise<SanctionedEntity[]> {
+    const entities: SanctionedEntity[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      const raw = JSON.parse(line);
+      if (!SCREENED_SCHEMAS.has(raw.schema)) continue;
+
+      const properties = raw.properties || {};
+      const names: string[] = [...(properties.name || []), ...(properties.alias || []), ...(properties.previousName || [])];
+      if (names.length === 0) continue;
+
+      entities.push({
+        id: raw.id,
+        caption: raw.caption || names[0],
+        schema: raw.schema,
+        names,
+        topics: properties.topics || [],
+        datasets: raw.datasets || [],
+        countries: [
+          ...(properties.country || []),
+          ...(properties.jurisdiction || []),
+          ...(properties.nationality || []),
+          ...(properties.citizenship || []),
+        ],
+        source_urls: properties.sourceUrl || [],
+        registration_numbers: [
+          ...(properties.registrationNumber || []),
+          ...(properties.taxNumber || []),
+          ...(properties.vatCode || []),
+          ...(properties.innCode || []),
+          ...(properties.ogrnCode || []),
+        ],
+        birth_dates: properties.birthDate || [],
+      });
+    }
+
+    return entities;
+  }
+
+  /**
+   * EU consolidated financial sanctions list (xmlFullSanctionsList_1_1)
+   */
+  private async loadEuList(filePath: string): Promise<SanctionedEntity[]> {
+    const document = this.parseXml(filePath, ['sanctionEntity', 'nameAlias', 'regulation', 'citizenship', 'address', 'identification', 'birthdate']);
+    const listed: any[] = document.export?.sanctionEntity || [];
+
+    return listed.map((entry) => {
+      const names: string[] = (entry.nameAlias || []).map((alias: any) => alias.wholeName).filter(Boolean);
+      const isPerson = entry.subjectType?.code === 'person';
+
+      return {
+        id: `eu-fsf-${entry.logicalId}`,
+        caption: names[0] || String(entry.logicalId),
+        schema: isPerson ? 'Person' : 'Organization',
+        names,
+        topics: ['sanction'],
+        datasets: ['eu_fsf'],
+        countries: [...(entry.citizenship || []), ...(entry.address || [])]
+          .map((item: any) => item.countryIso2Code?.toLowerCase())
+          .filter((code: string | undefined) => code && code !== '00'),
+        source_urls: (entry.regulation || []).map((regulation: any) => regulation.publicationUrl).filter(Boolean)
+          .concat(EU_FSF_URL),
+        // Passports and ID cards identify people; registration and tax numbers identify companies
+        registration_numbers: isPerson ? [] : (entry.identification || [])
+          .map((identification: any) => identification.number)
+          .filter(Boolean),
+        birth_dates: (entry.birthdate || [])
+          .map((birthdate: any) => birthdate.birthdate || birthdate.year)
+          .filter(Boolean)
+          .map(String),
+      };
+    }).filter((entity) => entity.names.length > 0);
+  }
+
+  /**
+   * UN Security Council consolidated list
+   */
+  private async loadUnList(filePath: string): Promise<SanctionedEntity[]> {
+    const document = this.parseXml(filePath, [
+      'INDIVIDUAL', 'ENTITY', 'INDIVIDUAL_ALIAS', 'ENTITY_ALIAS', 'NATIONALITY', 'INDIVIDUAL_DATE_OF_BIRTH',
+    ]);
+    const list = document.CONSOLIDATED_LIST || {};
+
+    const toEntity = (entry: any, schema: string, aliases: any[], birthDates: any[] = []): SanctionedEntity => {
+      const primary = [entry.FIRST_NAME, entry.SECOND_NAME, entry.THIRD_NAME, entry.FOURTH_NAME].filter(Boolean).join(' ');
+      const names = [primary, ...aliases.map((alias) => alias.ALIAS_NAME)].filter(Boolean);
+      return {
+        id: `un-${entry.DATAID}`,
+        caption: primary,
+        schema,
+        names,
+        topics: ['sanction'],
+        datasets: ['un_sc_sanctions'],
+        countries: [],
+        source_urls: [UN_LIST_URL],
+        registration_numbers: [],
+        birth_dates: birthDates.map((birthDate) => birthDate.DATE || birthDate.YEAR).filter(Boolean).map(String),
+      };
+    };
+
+    const individuals: any[] = list.INDIVIDUALS?.INDIVIDUAL || [];
+    const organizations: any[] = list.ENTITIES?.ENTITY || [];
+
+    return [
+      ...individuals.map((entry) =>
+        toEntity(entry, 'Person', entry.INDIVIDUAL_ALIAS || [], entry.INDIVIDUAL_DATE_OF_BIRTH || [])),
+      ...organizations.map((entry) => toEntity(entry, 'Organization', entry.ENTITY_ALIAS || [])),
+    ].filter((entity) => entity.names.length > 0);
+  }
+
+  private parseXml(filePath: string, arrayTags: string[]): any {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: (tagName) => arrayTags.includes(tagName),
+    });
+    return parser.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+}
+
+export const getLocalSanctionsService = () => LocalSanctionsService.getInstance();
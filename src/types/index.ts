@@ -26,6 +26,7 @@ export type Database = {
           closed_status: string | null
           company_name: string | null
           company_type_code: string | null
+          dataset_versions: Json | null
           has_insolvency: boolean | null
           has_insolvency_history: boolean | null
           id: string
@@ -73,6 +74,7 @@ export type Database = {
           closed_status?: string | null
           company_name?: string | null
           company_type_code?: string | null
+          dataset_versions?: Json | null
           has_insolvency?: boolean | null
           has_insolvency_history?: boolean | null
           id?: string
@@ -120,6 +122,7 @@ export type Database = {
           closed_status?: string | null
           company_name?: string | null
           company_type_code?: string | null
+          dataset_versions?: Json | null
           has_insolvency?: boolean | null
           has_insolvency_history?: boolean | null
           id?: string
@@ -295,6 +298,131 @@ export type Database = {
         }
         Relationships: []
       }
+      result_cache: {
+        Row: {
+          cache_key: string
+          cached_at: string
+          evidence: Json | null
+          expires_at: string
+          id: string
+          provider: string
+          value: Json
+        }
+        Insert: {
+          cache_key: string
+          cached_at?: string
+          evidence?: Json | null
+          expires_at: string
+          id?: string
+          provider: string
+          value: Json
+        }
+        Update: {
+          cache_key?: string
+          cached_at?: string
+          evidence?: Json | null
+          expires_at?: string
+          id?: string
+          provider?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      screening_adjudications: {
+        Row: {
+          analyst: string | null
+          comment: string | null
+          created_at: string
+          decision: string
+          entity_caption: string | null
+          entity_hash: string
+          entity_id: string
+          id: string
+          invalidated_at: string | null
+          registration_number: string
+          updated_at: string
+        }
+        Insert: {
+          analyst?: string | null
+          comment?: string | null
+          created_at?: string
+          decision: string
+          entity_caption?: string | null
+          entity_hash: string
+          entity_id: string
+          id?: string
+          invalidated_at?: string | null
+          registration_number: string
+          updated_at?: string
+        }
+        Update: {
+          analyst?: string | null
+          comment?: string | null
+          created_at?: string
+          decision?: string
+          entity_caption?: string | null
+          entity_hash?: string
+          entity_id?: string
+          id?: string
+          invalidated_at?: string | null
+          registration_number?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      screening_evidence: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          latency_ms: number
+          operation: string
+          profile_id: string
+          provider: string
+          registration_number: string
+          request: Json | null
+          requested_at: string
+          response: Json | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms: number
+          operation: string
+          profile_id: string
+          provider: string
+          registration_number: string
+          request?: Json | null
+          requested_at: string
+          response?: Json | null
+          status: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms?: number
+          operation?: string
+          profile_id?: string
+          provider?: string
+          registration_number?: string
+          request?: Json | null
+          requested_at?: string
+          response?: Json | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_evidence_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "company_risk_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
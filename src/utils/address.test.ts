@@ -0,0 +1,47 @@
+import { compareAddresses } from './address';
+
+describe('compareAddresses', () => {
+  it('matches the same address written in another order and style', () => {
+    expect(compareAddresses('Brīvības iela 1, Rīga, LV-1010', 'Rīga, Brīvības iela 1, LV-1010')).toEqual({
+      similarity: 1,
+      postal_code_differs: false,
+      matches: true,
+    });
+  });
+
+  it('matches street and city names transliterated without diacritics', () => {
+    const comparison = compareAddresses('Rīga, Krišjāņa Valdemāra iela 33, LV-1010', 'KRISJANA VALDEMARA IELA 33, RIGA, LV1010');
+
+    expect(comparison.similarity).toBe(1);
+    expect(comparison.matches).toBe(true);
+  });
+
+  it('matches from 60% of the shorter address\'s identifying words', () => {
+    const registered = 'Ādaži, Ādažu novads, Rīgas gatve 5 - 12';
+
+    expect(compareAddresses(registered, 'Ādažu novads, Rīgas gatve 5 - 40, Kadaga')).toMatchObject({
+      similarity: 0.6,
+      matches: true,
+    });
+    expect(compareAddresses(registered, 'Ādažu novads, Rīgas gatve 7 - 40, Kadaga')).toMatchObject({
+      similarity: 0.4,
+      matches: false,
+    });
+  });
+
+  it('does not match when the postal codes differ', () => {
+    expect(compareAddresses('Rīga, Brīvības iela 1, LV-1010', 'Rīga, Brīvības iela 1, LV-1050')).toEqual({
+      similarity: 1,
+      postal_code_differs: true,
+      matches: false,
+    });
+  });
+
+  it('ignores a postal code given for only one address', () => {
+    expect(compareAddresses('Rīga, Brīvības iela 1, LV-1010', 'Rīga, Brīvības iela 1').matches).toBe(true);
+  });
+
+  it('does not match an address without identifying words', () => {
+    expect(compareAddresses('Latvija', 'Rīga, Brīvības iela 1')).toMatchObject({ similarity: 0, matches: false });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Loose comparison of postal addresses written in different orders and styles
+ * e.g. "Brīvības iela 1, Rīga, LV-1010" vs "Rīga, Brīvības iela 1 - 5, LV-1010"
+ */
+
+import { foldDiacritics } from './companyName';
+
+// Words that describe rather than identify a location
+const ADDRESS_STOPWORDS = new Set([
+  'iela', 'iel', 'gatve', 'bulvaris', 'bulv', 'prospekts', 'laukums', 'sosneja', 'cels',
+  'novads', 'nov', 'pagasts', 'pag', 'pilseta', 'ciems', 'lv', 'latvija', 'latvia', 'k', 'dz', 'm',
+]);
+
+// Share of the shorter address's words that must appear in the other
+const MATCH_THRESHOLD = 0.6;
+
+export interface AddressComparison {
+  /** 0..1 share of the shorter address's identifying words found in the other */
+  similarity: number;
+  /** Postal codes (LV-nnnn) of both addresses differ */
+  postal_code_differs: boolean;
+  matches: boolean;
+}
+
+function addressTokens(address: string): string[] {
+  return foldDiacritics(address)
+    .replace(/lv-?\d{4}/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !ADDRESS_STOPWORDS.has(token));
+}
+
+function postalCode(address: string): string | null {
+  return /LV-?(\d{4})/i.exec(address)?.[1] ?? null;
+}
+
+/**
+ * Compare two addresses, ignoring word order, diacritics, punctuation and street-type words
+ */
+export function compareAddresses(a: string, b: string): AddressComparison {
+  const aTokens = new Set(addressTokens(a));
+  const bTokens = new Set(addressTokens(b));
+  const shorter = aTokens.size <= bTokens.size ? aTokens : bTokens;
+  const longer = shorter === aTokens ? bTokens : aTokens;
+
+  const shared = Array.from(shorter).filter((token) => longer.has(token)).length;
+  const similarity = shorter.size > 0 ? Math.round((shared / shorter.size) * 1000) / 1000 : 0;
+
+  const aPostal = postalCode(a);
+  const bPostal = postalCode(b);
+  const postalCodeDiffers = aPostal !== null && bPostal !== null && aPostal !== bPostal;
+
+  return {
+    similarity,
+    postal_code_differs: postalCodeDiffers,
+    matches: similarity >= MATCH_THRESHOLD && !postalCodeDiffers,
+  };
+}
@@ -0,0 +1,59 @@
+import { AnalyzedArticle, validateAnalysis } from './adverseMediaAnalysis';
+
+const articles: AnalyzedArticle[] = [
+  {
+    title: 'Baltijas Nafta valdes loceklis aizturēts',
+    url: 'https://example.lv/1',
+    snippet: 'KNAB aizdomas par kukuļa   pieņemšanu uzņēmumā Baltijas Nafta.',
+  },
+  { title: 'Baltijas Nafta opens a new terminal', url: 'https://example.com/2', snippet: 'Expansion in Ventspils.' },
+];
+
+const finding = { article: 1, category: 'corruption', severity: 'high', quote: 'aizdomas par kukuļa pieņemšanu' };
+
+describe('validateAnalysis', () => {
+  it('accepts a valid analysis and attaches the article URL to each finding', () => {
+    const result = validateAnalysis({ summary: ' Bribery suspicion. ', risk_score: 70, findings: [finding] }, articles);
+    expect(result).toEqual({
+      valid: true,
+      value: {
+        summary: 'Bribery suspicion.',
+        risk_score: 70,
+        findings: [{ ...finding, url: 'https://example.lv/1' }],
+      },
+    });
+  });
+
+  it('reports every schema error', () => {
+    const result = validateAnalysis({
+      summary: '',
+      risk_score: 101,
+      findings: [{ article: 3, category: 'tax', severity: 'severe', quote: '' }],
+    }, articles);
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'summary must be a non-empty string',
+        'risk_score must be an integer from 0 to 100',
+        'findings[0].article must be a result number from 1 to 2',
+        'findings[0].category must be one of fraud, aml, sanctions_evasion, corruption',
+        'findings[0].severity must be one of low, medium, high, critical',
+        'findings[0].quote must be a non-empty string',
+      ],
+    });
+  });
+
+  it('rejects input that is not an object', () => {
+    const result = validateAnalysis('no analysis', articles);
+    expect(!result.valid && result.errors).toContain('findings must be an array');
+  });
+
+  it('rejects a quote that is not in the cited article', () => {
+    const result = validateAnalysis({
+      summary: 'Bribery suspicion.',
+      risk_score: 70,
+      findings: [{ ...finding, article: 2 }],
+    }, articles);
+    expect(result).toEqual({ valid: false, errors: ['findings[0].quote must be copied verbatim from result 2'] });
+  });
+});
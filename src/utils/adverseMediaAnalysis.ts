@@ -0,0 +1,148 @@
+/**
+ * Schema of the structured adverse media analysis returned by the LLM, and its runtime validation
+ */
+
+export type AdverseMediaCategory = 'fraud' | 'aml' | 'sanctions_evasion' | 'corruption';
+export type FindingSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const ADVERSE_MEDIA_CATEGORIES: AdverseMediaCategory[] = ['fraud', 'aml', 'sanctions_evasion', 'corruption'];
+export const FINDING_SEVERITIES: FindingSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * One adverse statement about the company in one article
+ */
+export interface AdverseMediaFinding {
+  /** 1-based position of the article in the list sent to the model */
+  article: number;
+  url: string;
+  category: AdverseMediaCategory;
+  severity: FindingSeverity;
+  /** Verbatim excerpt of the article title or snippet supporting the finding */
+  quote: string;
+}
+
+export interface AdverseMediaAnalysis {
+  summary: string;
+  /** 0-100 */
+  risk_score: number;
+  findings: AdverseMediaFinding[];
+}
+
+/**
+ * The article text the model saw, used to check its quotes
+ */
+export interface AnalyzedArticle {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export type AnalysisValidation =
+  | { valid: true; value: AdverseMediaAnalysis }
+  | { valid: false; errors: string[] };
+
+export const ANALYSIS_TOOL_NAME = 'record_adverse_media_analysis';
+
+/**
+ * Tool definition; the model is forced to call it, so its input is the analysis
+ */
+export const ANALYSIS_TOOL = {
+  name: ANALYSIS_TOOL_NAME,
+  description: 'Record the adverse media analysis of the numbered search results.',
+  input_schema: {
+    type: 'object' as const,
+    properties: {
+      summary: { type: 'string', description: 'Analysis summary in 1-3 sentences' },
+      risk_score: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: '0-20 low, 21-50 medium, 51-80 high, 81-100 critical',
+      },
+      findings: {
+        type: 'array',
+        description: 'One entry per article with adverse content about the company itself; empty if none',
+        items: {
+          type: 'object',
+          properties: {
+            article: { type: 'integer', minimum: 1, description: 'Number of the search result' },
+            category: { type: 'string', enum: ADVERSE_MEDIA_CATEGORIES },
+            severity: { type: 'string', enum: FINDING_SEVERITIES },
+            quote: { type: 'string', description: 'Verbatim excerpt of that result\'s title or snippet' },
+          },
+          required: ['article', 'category', 'severity', 'quote'],
+        },
+      },
+    },
+    required: ['summary', 'risk_score', 'findings'],
+  },
+};
+
+/**
+ * Collapse case and whitespace so quotes survive reflowing
+ */
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Validate the model's tool input against the schema, and check every quote really appears in its article
+ * @param articles - The articles in the order they were numbered in the prompt
+ */
+export function validateAnalysis(input: unknown, articles: AnalyzedArticle[]): AnalysisValidation {
+  const errors: string[] = [];
+  const value = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  if (typeof value.summary !== 'string' || value.summary.trim() === '') {
+    errors.push('summary must be a non-empty string');
+  }
+
+  const riskScore = value.risk_score;
+  if (typeof riskScore !== 'number' || !Number.isInteger(riskScore) || riskScore < 0 || riskScore > 100) {
+    errors.push('risk_score must be an integer from 0 to 100');
+  }
+
+  const findings: AdverseMediaFinding[] = [];
+  if (!Array.isArray(value.findings)) {
+    errors.push('findings must be an array');
+  } else {
+    value.findings.forEach((raw, i) => {
+      const finding = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const article = typeof finding.article === 'number' ? articles[finding.article - 1] : undefined;
+      const label = `findings[${i}]`;
+
+      if (!article) {
+        errors.push(`${label}.article must be a result number from 1 to ${articles.length}`);
+      }
+      if (!ADVERSE_MEDIA_CATEGORIES.includes(finding.category as AdverseMediaCategory)) {
+        errors.push(`${label}.category must be one of ${ADVERSE_MEDIA_CATEGORIES.join(', ')}`);
+      }
+      if (!FINDING_SEVERITIES.includes(finding.severity as FindingSeverity)) {
+        errors.push(`${label}.severity must be one of ${FINDING_SEVERITIES.join(', ')}`);
+      }
+      if (typeof finding.quote !== 'string' || finding.quote.trim() === '') {
+        errors.push(`${label}.quote must be a non-empty string`);
+      } else if (article && !normalizeText(`${article.title} ${article.snippet}`).includes(normalizeText(finding.quote))) {
+        errors.push(`${label}.quote must be copied verbatim from result ${finding.article}`);
+      }
+
+      if (article) {
+        findings.push({
+          article: finding.article as number,
+          url: article.url,
+          category: finding.category as AdverseMediaCategory,
+          severity: finding.severity as FindingSeverity,
+          quote: String(finding.quote).trim(),
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    value: { summary: (value.summary as string).trim(), risk_score: riskScore as number, findings },
+  };
+}
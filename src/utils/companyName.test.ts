@@ -0,0 +1,40 @@
+import { generateNameVariants, normalizeCompanyName, stripLegalForm, toAsciiName } from './companyName';
+
+describe('normalizeCompanyName', () => {
+  it('drops the legal form, quotes and diacritics', () => {
+    expect(normalizeCompanyName('SIA "Ābeļu Dārzs"')).toBe('abelu darzs');
+    expect(normalizeCompanyName('AS Latvijas Gāze')).toBe('latvijas gaze');
+  });
+
+  it('romanizes Cyrillic names', () => {
+    expect(normalizeCompanyName('ООО "Ромашка"')).toBe('romashka');
+  });
+});
+
+describe('stripLegalForm', () => {
+  it('removes a leading or trailing legal form and keeps the spelling', () => {
+    expect(stripLegalForm('SIA "Ābeļu Dārzs"')).toBe('Ābeļu Dārzs');
+    expect(stripLegalForm('Baltijas Nafta SIA')).toBe('Baltijas Nafta');
+  });
+});
+
+describe('toAsciiName', () => {
+  it('romanizes and folds diacritics', () => {
+    expect(toAsciiName('Сбербанк')).toBe('Sberbank');
+    expect(toAsciiName('Ābeļu Dārzs')).toBe('Abelu Darzs');
+  });
+});
+
+describe('generateNameVariants', () => {
+  it('returns the name as written, its ASCII form and its Cyrillic spelling', () => {
+    expect(generateNameVariants('SIA "Ābeļu Dārzs"')).toEqual(['Ābeļu Dārzs', 'Abelu Darzs', 'Абелу Дарзс']);
+  });
+
+  it('romanizes a Cyrillic name', () => {
+    expect(generateNameVariants('ООО "Ромашка"')).toEqual(['Ромашка', 'Romashka']);
+  });
+
+  it('returns nothing for an empty name', () => {
+    expect(generateNameVariants('')).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Name normalization shared by registry search, sanctions screening and adverse media search:
+ * legal forms, diacritics, Cyrillic transliteration and spelling variants
+ */
+
+import { cyrillicToLatin, hasCyrillic, latinToCyrillic } from './transliteration';
+
+// Latvian (and common foreign) legal-form designations, written without diacritics and in lower case.
+// Multi-word forms must come before their abbreviations.
+const LEGAL_FORMS: string[] = [
+  'sabiedriba ar ierobezotu atbildibu',
+  'akciju sabiedriba',
+  'individualais komersants',
+  'zemnieku saimnieciba',
+  'zvejnieku saimnieciba',
+  'pilnsabiedriba',
+  'komanditsabiedriba',
+  'kooperativa sabiedriba',
+  'arvalsts komersanta filiale',
+  'sia',
+  'as',
+  'ik',
+  'zs',
+  'ps',
+  'ks',
+  'ltd',
+  'llc',
+  'llp',
+  'limited',
+  'inc',
+  'plc',
+  'gmbh',
+  'jsc',
+  'pjsc',
+  'ojsc',
+  'ooo',
+  'oao',
+  'zao',
+  'pao',
+  'ao',
+  'tov',
+  'uab',
+  'ou',
+];
+
+// Letters that Unicode decomposition does not reduce to a base letter
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ł': 'l', 'Ł': 'L', 'ø': 'o', 'Ø': 'O', 'đ': 'd', 'Đ': 'D', 'æ': 'ae', 'Æ': 'Ae', 'ß': 'ss', 'œ': 'oe', 'Œ': 'Oe',
+};
+
+/**
+ * Strip diacritics, keeping case (Ābeļu → Abelu)
+ */
+function stripDiacritics(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[łŁøØđĐæÆßœŒ]/g, (letter) => SPECIAL_LETTERS[letter]);
+}
+
+/**
+ * Lower-case a string and strip diacritics (ā → a, š → s, ...)
+ */
+export function foldDiacritics(value: string): string {
+  return stripDiacritics(value).toLowerCase();
+}
+
+/**
+ * Plain ASCII Latin spelling of a name: Cyrillic romanized, diacritics stripped, case kept
+ * e.g. 'Ābeļu Dārzs' → 'Abelu Darzs', 'Сбербанк' → 'Sberbank'
+ */
+export function toAsciiName(value: string): string {
+  return stripDiacritics(cyrillicToLatin(value));
+}
+
+/**
+ * Normalize a company or person name for indexing and comparison:
+ * romanizes Cyrillic, folds diacritics, drops quotes and punctuation, and removes legal-form designations.
+ * e.g. 'SIA "Ābeļu Dārzs"' → 'abelu darzs', 'ООО "Ромашка"' → 'romashka'
+ */
+export function normalizeCompanyName(name: string): string {
+  const folded = ` ${toAsciiName(name).toLowerCase().replace(/[^a-z0-9]+/g, ' ')} `;
+
+  let normalized = folded;
+  for (const form of LEGAL_FORMS) {
+    normalized = normalized.split(` ${form} `).join(' ');
+  }
+  normalized = normalized.replace(/\s+/g, ' ').trim();
+
+  // A name made only of legal-form words (e.g. "AS") keeps its words
+  return normalized || folded.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split a company name into normalized tokens
+ */
+export function tokenizeCompanyName(name: string): string[] {
+  const normalized = normalizeCompanyName(name);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * The name's own words, without quotes, punctuation and legal-form designations, as written
+ * e.g. 'SIA "Ābeļu Dārzs"' → 'Ābeļu Dārzs'
+ */
+export function stripLegalForm(name: string): string {
+  const words = name.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const keys = words.map((word) => toAsciiName(word).toLowerCase());
+
+  const kept: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const form = LEGAL_FORMS
+      .map((legalForm) => legalForm.split(' '))
+      .find((formWords) => formWords.every((formWord, offset) => keys[i + offset] === formWord));
+    if (form) {
+      i += form.length - 1;
+      continue;
+    }
+    kept.push(words[i]);
+  }
+
+  // A name made only of legal-form words keeps its words
+  return (kept.length > 0 ? kept : words).join(' ');
+}
+
+/**
+ * Spellings of a name worth sending to external searches, most faithful first:
+ * as written (without legal form), its ASCII Latin spelling, and its Cyrillic spelling
+ * e.g. 'SIA "Ābeļu Dārzs"' → ['Ābeļu Dārzs', 'Abelu Darzs', 'Абелу Дарзс']
+ */
+export function generateNameVariants(name: string): string[] {
+  const written = stripLegalForm(name);
+  if (!written) return [];
+
+  const ascii = toAsciiName(written);
+  const cyrillic = hasCyrillic(written) ? written : latinToCyrillic(ascii);
+
+  const seen = new Set<string>();
+  return [written, ascii, cyrillic].filter((variant) => {
+    const key = variant.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Country name and code normalization for free-text submission fields
+ */
+
+import { foldDiacritics } from './companyName';
+
+// Folded English, Latvian and native names → ISO 3166 alpha-2
+const COUNTRY_NAMES: Record<string, string> = {
+  'latvia': 'LV', 'latvija': 'LV', 'republic of latvia': 'LV', 'latvijas republika': 'LV', 'lva': 'LV',
+  'estonia': 'EE', 'igaunija': 'EE', 'eesti': 'EE', 'est': 'EE',
+  'lithuania': 'LT', 'lietuva': 'LT', 'ltu': 'LT',
+  'finland': 'FI', 'somija': 'FI', 'suomi': 'FI', 'fin': 'FI',
+  'sweden': 'SE', 'zviedrija': 'SE', 'sverige': 'SE', 'swe': 'SE',
+  'poland': 'PL', 'polija': 'PL', 'polska': 'PL', 'pol': 'PL',
+  'germany': 'DE', 'vacija': 'DE', 'deutschland': 'DE', 'deu': 'DE',
+  'united kingdom': 'GB', 'lielbritanija': 'GB', 'uk': 'GB', 'gbr': 'GB',
+  'united states': 'US', 'usa': 'US', 'asv': 'US',
+  'russia': 'RU', 'krievija': 'RU', 'russian federation': 'RU', 'rus': 'RU',
+  'belarus': 'BY', 'baltkrievija': 'BY', 'blr': 'BY',
+  'ukraine': 'UA', 'ukraina': 'UA', 'ukr': 'UA',
+};
+
+/**
+ * Map a country name or code to an ISO 3166 alpha-2 code
+ * e.g. "Latvija" → "LV", "lv" → "LV"
+ * @returns The upper-case code, or null if not recognised
+ */
+export function toCountryCode(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const folded = foldDiacritics(value).replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (COUNTRY_NAMES[folded]) return COUNTRY_NAMES[folded];
+  if (/^[a-z]{2}$/.test(folded)) return folded.toUpperCase();
+
+  return null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Capture of raw provider requests and responses, kept as audit evidence of what each screening saw
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import axios from 'axios';
+import { describeError } from './resilience';
+
+/**
+ * One call to an external provider
+ */
+export interface EvidenceRecord {
+  /** e.g. vies, opensanctions, duckduckgo, anthropic */
+  provider: string;
+  /** e.g. check_vat, match_company, search, analyze */
+  operation: string;
+  /** What was sent, without credentials */
+  request: unknown;
+  /** Response body; for failed calls the error response body, if any */
+  response: unknown;
+  status: 'ok' | 'error';
+  error: string | null;
+  latency_ms: number;
+  requested_at: string;
+}
+
+/**
+ * Evidence collected during one screening run
+ */
+export class EvidenceLog {
+  readonly records: EvidenceRecord[] = [];
+}
+
+const activeLog = new AsyncLocalStorage<EvidenceLog>();
+
+/**
+ * Run fn with log collecting every provider call made inside it, including nested async calls
+ */
+export function withEvidenceLog<T>(log: EvidenceLog, fn: () => Promise<T>): Promise<T> {
+  return activeLog.run(log, fn);
+}
+
+/**
+ * Run fn collecting the provider calls it makes in a log of its own; they are added to the active log as well
+ * @returns fn's result and the evidence of its calls
+ */
+export async function collectEvidence<T>(fn: () => Promise<T>): Promise<{ result: T; records: EvidenceRecord[] }> {
+  const outer = activeLog.getStore();
+  const log = new EvidenceLog();
+  try {
+    const result = await activeLog.run(log, fn);
+    return { result, records: log.records };
+  } finally {
+    outer?.records.push(...log.records);
+  }
+}
+
+/**
+ * Add previously captured evidence, e.g. of a cached result, to the active log if there is one
+ */
+export function replayEvidence(records: EvidenceRecord[]): void {
+  activeLog.getStore()?.records.push(...records);
+}
+
+/**
+ * Make a provider call, recording it in the active evidence log if there is one.
+ * Errors are recorded and rethrown unchanged.
+ * @param toResponse - Extract the serializable response body from the call's result
+ */
+export async function captureEvidence<T>(
+  provider: string,
+  operation: string,
+  request: unknown,
+  call: () => Promise<T>,
+  toResponse: (result: T) => unknown = (result) => result
+): Promise<T> {
+  const log = activeLog.getStore();
+  if (!log) return call();
+
+  const requestedAt = new Date();
+  const record = (status: EvidenceRecord['status'], response: unknown, error: string | null) => {
+    log.records.push({
+      provider,
+      operation,
+      request,
+      response: response ?? null,
+      status,
+      error,
+      latency_ms: Date.now() - requestedAt.getTime(),
+      requested_at: requestedAt.toISOString(),
+    });
+  };
+
+  try {
+    const result = await call();
+    record('ok', toResponse(result), null);
+    return result;
+  } catch (error) {
+    record('error', axios.isAxiosError(error) ? error.response?.data : null, describeError(error));
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Conversion of typed values to the Json type of jsonb columns
+ */
+
+import type { Json } from '../types';
+
+/**
+ * Round-trip through JSON so class instances, dates and undefined values store cleanly
+ */
+export function toJson(value: unknown): Json {
+  if (value === undefined || value === null) return null;
+  try {
+    return JSON.parse(JSON.stringify(value)) as Json;
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,46 @@
+import { disambiguateArticles, MediaEntity } from './mediaDisambiguation';
+
+const entity: MediaEntity = {
+  name: 'SIA "Baltijas Nafta"',
+  registration_number: '40003032949',
+  city: 'Rīga',
+  persons: ['Jānis Bērziņš', 'Jānis'],
+};
+
+const article = (url: string, title: string, snippet = '') => ({ url: `https://example.lv/${url}`, title, snippet });
+
+describe('disambiguateArticles', () => {
+  it('keeps articles about the company, confirmed ones first', () => {
+    const result = disambiguateArticles([
+      article('name', 'Baltijas Nafta under investigation'),
+      article('number', 'Baltijas Nafta fined', 'SIA Baltijas Nafta (reg. Nr. 40003032949) was fined.'),
+      article('officer', 'Baltijas Nafta board member detained', 'Jānis Bērziņš was detained in Rīga.'),
+      article('cyrillic', 'Обыски в компании Балтияс Нафта'),
+    ], entity);
+
+    expect(result.discarded).toEqual([]);
+    expect(result.kept.map(({ article: { url }, match, reason }) => [url.split('/').pop(), match, reason])).toEqual([
+      ['number', 'confirmed', 'Cites registration number 40003032949'],
+      ['officer', 'confirmed', 'Names Jānis Bērziņš'],
+      ['name', 'unconfirmed', 'Name matches'],
+      ['cyrillic', 'unconfirmed', 'Name matches'],
+    ]);
+  });
+
+  it('discards articles about a different entity', () => {
+    const result = disambiguateArticles([
+      article('other-company', 'Latvijas Gāze fined'),
+      article('other-number', 'Baltijas Nafta fined', 'SIA Baltijas Nafta, reg. Nr. 40003074764'),
+      article('other-city', 'Baltijas Nafta in Tallinn charged with fraud'),
+      article('first-name', 'Baltijas Nafta in Tallinn hires Jānis'),
+    ], entity);
+
+    expect(result.kept).toEqual([]);
+    expect(result.discarded.map(({ reason }) => reason)).toEqual([
+      'Company name not mentioned',
+      'Cites a different registration number (40003074764)',
+      'Places the company in Tallinn, not Rīga',
+      'Places the company in Tallinn, not Rīga',
+    ]);
+  });
+});
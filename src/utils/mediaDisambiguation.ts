@@ -0,0 +1,183 @@
+/**
+ * Article-level entity disambiguation for adverse media: tells articles about the screened company
+ * from articles about a different entity with a similar name
+ */
+
+import { generateNameVariants, normalizeCompanyName, toAsciiName } from './companyName';
+import {
+  normalizeRegistrationNumber,
+  RegistrationNumberResult,
+  validateEstonianRegistryCode,
+  validateLithuanianLegalEntityCode,
+  validateRegistrationNumber,
+} from './registrationNumber';
+
+/**
+ * What is known about the screened company from the register
+ */
+export interface MediaEntity {
+  name: string;
+  registration_number?: string | null;
+  city?: string | null;
+  /** Officers and beneficial owners */
+  persons?: string[];
+}
+
+/**
+ * confirmed = the article cites the registration number or names an officer,
+ * unconfirmed = the name matches and nothing contradicts it
+ */
+export type ArticleMatch = 'confirmed' | 'unconfirmed';
+
+export interface DisambiguatedArticle<T> {
+  article: T;
+  match: ArticleMatch;
+  reason: string;
+}
+
+export interface DiscardedArticle {
+  title: string;
+  url: string;
+  reason: string;
+}
+
+export interface DisambiguationResult<T> {
+  /** Confirmed articles first, otherwise in their original order */
+  kept: DisambiguatedArticle<T>[];
+  discarded: DiscardedArticle[];
+}
+
+// Spellings of the larger Baltic and neighbouring cities as they appear in romanized text, inflected forms included
+const CITY_SPELLINGS: Record<string, string[]> = {
+  'Rīga': ['riga', 'rigas', 'rige', 'rigi'],
+  'Daugavpils': ['daugavpils', 'daugavpili', 'daugavpilse'],
+  'Liepāja': ['liepaja', 'liepajas', 'liepaya', 'liepae'],
+  'Jelgava': ['jelgava', 'jelgavas', 'elgava', 'elgave'],
+  'Jūrmala': ['jurmala', 'jurmalas', 'yurmala', 'yurmale'],
+  'Ventspils': ['ventspils', 'ventspili', 'ventspilse'],
+  'Rēzekne': ['rezekne', 'rezeknes'],
+  'Valmiera': ['valmiera', 'valmieras', 'valmiere'],
+  'Tallinn': ['tallinn', 'tallinna', 'tallinne', 'tallin'],
+  'Tartu': ['tartu', 'tartus'],
+  'Vilnius': ['vilnius', 'vilniuje', 'vilnyus', 'vilnyuse'],
+  'Kaunas': ['kaunas', 'kaune', 'kaunase'],
+  'Klaipėda': ['klaipeda', 'klaipedoje', 'klaypeda', 'klaypede'],
+  'Moscow': ['moscow', 'moskva', 'moskve', 'moskvy'],
+  'Saint Petersburg': ['petersburg', 'peterburg', 'peterburge'],
+  'Minsk': ['minsk', 'minske'],
+  'Kyiv': ['kyiv', 'kiev', 'kieve', 'kiyev'],
+};
+
+// Validator for the register a number of this length belongs to
+const VALIDATORS_BY_LENGTH: Record<number, (input: unknown) => RegistrationNumberResult> = {
+  11: validateRegistrationNumber,
+  8: validateEstonianRegistryCode,
+  9: validateLithuanianLegalEntityCode,
+};
+
+/**
+ * Romanized, lower-cased words of a text padded with spaces, so ` ${phrase} ` finds whole words
+ */
+function toSearchText(value: string): string {
+  return ` ${toAsciiName(value).toLowerCase().replace(/[^a-z0-9]+/g, ' ')} `;
+}
+
+/**
+ * Normalized spellings of a name: as written, and romanized from its Cyrillic spelling
+ * (Baltijas Nafta → baltijas nafta, baltiyas nafta), since a Russian article writes it in Cyrillic
+ */
+function nameKeys(name: string): string[] {
+  const keys = generateNameVariants(name).map(normalizeCompanyName).filter(Boolean);
+  return Array.from(new Set(keys));
+}
+
+function mentions(text: string, keys: string[]): boolean {
+  return keys.some((key) => text.includes(` ${key} `));
+}
+
+/**
+ * The city's entry in CITY_SPELLINGS, if it is one of the known cities
+ */
+function findCity(city: string): string | null {
+  const text = toSearchText(city);
+  return Object.keys(CITY_SPELLINGS).find((name) => mentions(text, CITY_SPELLINGS[name])) || null;
+}
+
+/**
+ * Registration numbers of the same register as ours cited in the text: ours, or digit runs of its length passing its checksum
+ */
+function findRegistrationNumbers(text: string, ownNumber: string): string[] {
+  const validate = VALIDATORS_BY_LENGTH[ownNumber.length];
+  if (!validate) return [];
+
+  const runs = text.match(/\d+/g) || [];
+  return runs.filter((run) => run === ownNumber || (run.length === ownNumber.length && validate(run).valid));
+}
+
+/**
+ * Sort search results into articles about the entity and articles about someone else.
+ * An article is discarded when it does not mention the name at all, cites a different registration number,
+ * or places the company in a different city with nothing confirming it is ours.
+ */
+export function disambiguateArticles<T extends { title: string; url: string; snippet: string }>(
+  articles: T[],
+  entity: MediaEntity
+): DisambiguationResult<T> {
+  const names = nameKeys(entity.name);
+  const ownNumber = entity.registration_number ? normalizeRegistrationNumber(entity.registration_number) : null;
+  const ownCity = entity.city ? findCity(entity.city) : null;
+  const persons = (entity.persons || [])
+    .map((person) => ({ person, keys: nameKeys(person) }))
+    // A single word (a bare first name or surname) would confirm too much
+    .filter(({ keys }) => keys.some((key) => key.includes(' ')));
+
+  const kept: DisambiguatedArticle<T>[] = [];
+  const discarded: DiscardedArticle[] = [];
+  const discard = (article: T, reason: string) => discarded.push({ title: article.title, url: article.url, reason });
+
+  for (const article of articles) {
+    const rawText = `${article.title} ${article.snippet}`;
+    const text = toSearchText(rawText);
+
+    if (names.length > 0 && !mentions(text, names)) {
+      discard(article, 'Company name not mentioned');
+      continue;
+    }
+
+    if (ownNumber) {
+      const numbers = findRegistrationNumbers(rawText, ownNumber);
+      if (numbers.includes(ownNumber)) {
+        kept.push({ article, match: 'confirmed', reason: `Cites registration number ${ownNumber}` });
+        continue;
+      }
+      if (numbers.length > 0) {
+        discard(article, `Cites a different registration number (${numbers[0]})`);
+        continue;
+      }
+    }
+
+    const officer = persons.find(({ keys }) => mentions(text, keys));
+    if (officer) {
+      kept.push({ article, match: 'confirmed', reason: `Names ${officer.person}` });
+      continue;
+    }
+
+    if (ownCity && !mentions(text, CITY_SPELLINGS[ownCity])) {
+      const otherCity = Object.keys(CITY_SPELLINGS).find((city) => city !== ownCity && mentions(text, CITY_SPELLINGS[city]));
+      if (otherCity) {
+        discard(article, `Places the company in ${otherCity}, not ${ownCity}`);
+        continue;
+      }
+    }
+
+    kept.push({ article, match: 'unconfirmed', reason: 'Name matches' });
+  }
+
+  return {
+    kept: [
+      ...kept.filter((entry) => entry.match === 'confirmed'),
+      ...kept.filter((entry) => entry.match === 'unconfirmed'),
+    ],
+    discarded,
+  };
+}
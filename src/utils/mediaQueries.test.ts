@@ -0,0 +1,34 @@
+import { buildMediaQueries, dedupeArticles } from './mediaQueries';
+
+describe('buildMediaQueries', () => {
+  it('searches the Russian-language press with the Cyrillic spelling too', () => {
+    const queries = buildMediaQueries('SIA "Baltijas Nafta"');
+
+    expect(queries.map(({ language }) => language)).toEqual(['lv', 'ru', 'en']);
+    expect(queries[0].query).toMatch(/^\("Baltijas Nafta"\) \("krāpšana" OR /);
+    expect(queries[1].query).toMatch(/^\("Балтияс Нафта" OR "Baltijas Nafta"\) \("мошенничество" OR /);
+    expect(queries[2].query).toMatch(/^\("Baltijas Nafta"\) \("fraud" OR /);
+  });
+
+  it('returns no queries for an empty name', () => {
+    expect(buildMediaQueries('')).toEqual([]);
+  });
+});
+
+describe('dedupeArticles', () => {
+  it('drops repeated URLs and republished stories, keeping the first occurrence', () => {
+    const articles = [
+      { title: 'Baltijas Nafta board member detained in Riga', url: 'https://www.example.lv/news/1/?utm_source=x', snippet: 'a' },
+      { title: 'Other headline', url: 'http://example.lv/news/1#comments', snippet: 'b' },
+      { title: 'Baltijas Nafta Board Member Detained in Rīga', url: 'https://news.example.com/2', snippet: 'c' },
+      { title: 'Fined', url: 'https://example.lv/3', snippet: 'Baltijas Nafta fined' },
+      { title: 'Fined', url: 'https://example.lv/4', snippet: 'Latvijas Gāze fined' },
+    ];
+
+    expect(dedupeArticles(articles).map(({ url }) => url)).toEqual([
+      'https://www.example.lv/news/1/?utm_source=x',
+      'https://example.lv/3',
+      'https://example.lv/4',
+    ]);
+  });
+});
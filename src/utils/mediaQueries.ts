@@ -0,0 +1,86 @@
+/**
+ * Adverse media search queries per language, and deduplication of the articles they return
+ */
+
+import { generateNameVariants, toAsciiName } from './companyName';
+import { hasCyrillic } from './transliteration';
+
+export type QueryLanguage = 'lv' | 'ru' | 'en';
+
+export const QUERY_LANGUAGES: QueryLanguage[] = ['lv', 'ru', 'en'];
+
+// Financial crime terms per language, in the forms the press uses in headlines
+const QUERY_TERMS: Record<QueryLanguage, string[]> = {
+  lv: ['krāpšana', 'naudas atmazgāšana', 'sankcijas', 'kukulis', 'korupcija', 'kriminālprocess'],
+  ru: ['мошенничество', 'отмывание денег', 'санкции', 'взятка', 'коррупция', 'уголовное дело'],
+  en: ['fraud', 'money laundering', 'sanctions', 'bribery', 'corruption', 'criminal case'],
+};
+
+export interface MediaQuery {
+  language: QueryLanguage;
+  query: string;
+}
+
+/**
+ * One query per language, each with the name spellings that language's press would use:
+ * Latin spellings for Latvian and English, the Cyrillic spelling plus the original for Russian
+ * e.g. ('SIA "Baltijas Nafta"', ['en']) → [{ language: 'en', query: '("Baltijas Nafta") ("fraud" OR ...)' }]
+ */
+export function buildMediaQueries(companyName: string, languages: QueryLanguage[] = QUERY_LANGUAGES): MediaQuery[] {
+  const variants = generateNameVariants(companyName);
+  if (variants.length === 0) return [];
+
+  const latin = variants.filter((variant) => !hasCyrillic(variant));
+  const cyrillic = variants.filter((variant) => hasCyrillic(variant));
+
+  return languages.map((language) => {
+    const names = language === 'ru'
+      ? [...cyrillic, variants[0]]
+      : latin.length > 0 ? latin : [toAsciiName(variants[0])];
+    const nameQuery = Array.from(new Set(names)).map((name) => `"${name}"`).join(' OR ');
+    const termQuery = QUERY_TERMS[language].map((term) => `"${term}"`).join(' OR ');
+    return { language, query: `(${nameQuery}) (${termQuery})` };
+  });
+}
+
+/**
+ * URL without scheme, www., fragment, tracking parameters and trailing slash
+ */
+function urlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !key.toLowerCase().startsWith('utm_'))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}${params ? `?${params}` : ''}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Text fingerprint catching syndicated copies: the title, or title and snippet when the title is too short to tell apart
+ */
+function contentKey(article: { title: string; snippet: string }): string {
+  const normalize = (value: string) => toAsciiName(value).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const title = normalize(article.title);
+  return title.split(' ').length >= 4 ? title : `${title} ${normalize(article.snippet)}`.trim();
+}
+
+/**
+ * Drop repeated articles: the same URL, or the same story republished under another URL. The first occurrence is kept.
+ */
+export function dedupeArticles<T extends { title: string; url: string; snippet: string }>(articles: T[]): T[] {
+  const seenUrls = new Set<string>();
+  const seenContent = new Set<string>();
+
+  return articles.filter((article) => {
+    const url = urlKey(article.url);
+    const content = contentKey(article);
+    if (seenUrls.has(url) || (content && seenContent.has(content))) return false;
+    seenUrls.add(url);
+    if (content) seenContent.add(content);
+    return true;
+  });
+}
@@ -0,0 +1,27 @@
+import { jaroWinkler, nameSimilarity } from './nameMatching';
+
+describe('jaroWinkler', () => {
+  it('scores identical strings 1 and empty strings 0', () => {
+    expect(jaroWinkler('nafta', 'nafta')).toBe(1);
+    expect(jaroWinkler('', 'nafta')).toBe(0);
+  });
+
+  it('tolerates transposed letters', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order', () => {
+    expect(nameSimilarity('baltijas nafta', 'nafta baltijas')).toBe(1);
+  });
+
+  it('scores a typo and a longer listed name high', () => {
+    expect(nameSimilarity('baltijas nafta', 'baltjas nafta')).toBeGreaterThan(0.95);
+    expect(nameSimilarity('baltijas nafta', 'baltijas nafta holding')).toBeGreaterThan(0.9);
+  });
+
+  it('scores a different name below the match thresholds', () => {
+    expect(nameSimilarity('baltijas nafta', 'latvijas gaze')).toBeLessThan(0.8);
+  });
+});
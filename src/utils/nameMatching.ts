@@ -0,0 +1,67 @@
+/**
+ * Fuzzy name similarity used by sanctions screening
+ */
+
+/**
+ * Jaro-Winkler similarity between two strings (0..1)
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const matchDistance = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchDistance);
+    const end = Math.min(i + matchDistance + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of a normalized query name to a normalized listed name (space-separated tokens), 0..1.
+ * Tolerant to word order and small typos. Weighted towards how well the query's tokens are covered,
+ * so a short name still scores high against a longer listed name that contains it.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const aTokens = a.split(' ');
+  const bTokens = b.split(' ');
+
+  // Best partner for each token, in both directions
+  const bestMatches = (from: string[], to: string[]) =>
+    from.reduce((sum, token) => sum + Math.max(...to.map((other) => jaroWinkler(token, other))), 0) / from.length;
+  const tokenScore = 0.7 * bestMatches(aTokens, bTokens) + 0.3 * bestMatches(bTokens, aTokens);
+
+  const sortedScore = jaroWinkler([...aTokens].sort().join(' '), [...bTokens].sort().join(' '));
+
+  return Math.max(tokenScore, sortedScore);
+}
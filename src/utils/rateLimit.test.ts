@@ -0,0 +1,107 @@
+import { getRateLimiter, QuotaExceededError, RateLimiter } from './rateLimit';
+
+// A call that runs until the test resolves it
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs at most maxConcurrent calls at once', async () => {
+    const limiter = new RateLimiter('test', { maxConcurrent: 2, perMinute: 600, burst: 10, dailyQuota: null });
+    const calls = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = calls.map((call, i) => limiter.schedule(async () => {
+      started.push(i);
+      await call.promise;
+    }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getStatus()).toMatchObject({ active: 2, queued: 1 });
+
+    calls[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    calls[1].resolve();
+    calls[2].resolve();
+    await Promise.all(results);
+    expect(limiter.getStatus()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('spaces calls by the sustained rate once the burst is used', async () => {
+    const limiter = new RateLimiter('test', { maxConcurrent: 5, perMinute: 60, burst: 1, dailyQuota: null });
+    const started: number[] = [];
+    limiter.schedule(async () => { started.push(Date.now()); });
+    limiter.schedule(async () => { started.push(Date.now()); });
+
+    await flush();
+    expect(started).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(started).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toHaveLength(2);
+    expect(started[1] - started[0]).toBe(1000);
+  });
+
+  it('rejects calls over the daily quota without running them', async () => {
+    const limiter = new RateLimiter('test', { maxConcurrent: 5, perMinute: 600, burst: 10, dailyQuota: 2 });
+    const fn = jest.fn(async () => 'ok');
+
+    await expect(limiter.schedule(fn)).resolves.toBe('ok');
+    await expect(limiter.schedule(fn)).resolves.toBe('ok');
+    await expect(limiter.schedule(fn)).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(limiter.getStatus()).toMatchObject({ usedToday: 2, remainingToday: 0, rejectedToday: 1 });
+  });
+
+  it('resets the quota at midnight UTC', async () => {
+    const limiter = new RateLimiter('test', { maxConcurrent: 5, perMinute: 600, burst: 10, dailyQuota: 1 });
+    await limiter.schedule(async () => undefined);
+    await expect(limiter.schedule(async () => undefined)).rejects.toBeInstanceOf(QuotaExceededError);
+
+    jest.setSystemTime(new Date('2026-10-20T00:00:01Z'));
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+    expect(limiter.getStatus()).toMatchObject({ day: '2026-10-20', usedToday: 1, rejectedToday: 0 });
+  });
+
+  it('frees the slot when a call fails', async () => {
+    const limiter = new RateLimiter('test', { maxConcurrent: 1, perMinute: 600, burst: 10, dailyQuota: null });
+    await expect(limiter.schedule(async () => { throw new Error('timeout'); })).rejects.toThrow('timeout');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('getRateLimiter', () => {
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_TESTPROVIDER_DAILY_QUOTA;
+    delete process.env.RATE_LIMIT_TESTPROVIDER_BURST;
+  });
+
+  it('applies environment overrides and ignores values that are not numbers', () => {
+    process.env.RATE_LIMIT_TESTPROVIDER_DAILY_QUOTA = '500';
+    process.env.RATE_LIMIT_TESTPROVIDER_BURST = 'many';
+    expect(getRateLimiter('testprovider').limit).toEqual({ maxConcurrent: 4, perMinute: 60, burst: 10, dailyQuota: 500 });
+  });
+
+  it('shares one limiter per provider', () => {
+    expect(getRateLimiter('duckduckgo')).toBe(getRateLimiter('duckduckgo'));
+    expect(getRateLimiter('duckduckgo').limit.maxConcurrent).toBe(1);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Shared outbound rate limiting for external providers: concurrency caps, token-bucket rates and daily quotas
+ */
+
+export interface RateLimit {
+  /** Calls in flight at once */
+  maxConcurrent: number;
+  /** Sustained call rate */
+  perMinute: number;
+  /** Calls allowed back to back before the sustained rate applies */
+  burst: number;
+  /** Calls per UTC day, null for no quota */
+  dailyQuota: number | null;
+}
+
+// Limits per provider. Each field can be overridden with RATE_LIMIT_<PROVIDER>_MAX_CONCURRENT,
+// _PER_MINUTE, _BURST and _DAILY_QUOTA (0 removes the quota), e.g. RATE_LIMIT_OPENSANCTIONS_DAILY_QUOTA=500
+const DEFAULT_LIMITS: Record<string, RateLimit> = {
+  vies: { maxConcurrent: 4, perMinute: 60, burst: 10, dailyQuota: null },
+  opensanctions: { maxConcurrent: 4, perMinute: 60, burst: 10, dailyQuota: 2000 },
+  // DuckDuckGo blocks bursts: one search at a time, 5 seconds apart, 50 a day
+  duckduckgo: { maxConcurrent: 1, perMinute: 12, burst: 1, dailyQuota: 50 },
+  // NewsAPI developer plan allows 100 requests a day
+  newsapi: { maxConcurrent: 2, perMinute: 30, burst: 5, dailyQuota: 100 },
+  anthropic: { maxConcurrent: 2, perMinute: 50, burst: 5, dailyQuota: null },
+};
+
+// Providers without an entry above
+const FALLBACK_LIMIT: RateLimit = { maxConcurrent: 4, perMinute: 60, burst: 10, dailyQuota: null };
+
+export class QuotaExceededError extends Error {
+  constructor(provider: string, quota: number) {
+    super(`${provider} daily quota of ${quota} calls used up, resets at midnight UTC`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Limit from DEFAULT_LIMITS with the provider's environment overrides applied
+ */
+function configuredLimit(provider: string): RateLimit {
+  const base = DEFAULT_LIMITS[provider] || FALLBACK_LIMIT;
+  const prefix = `RATE_LIMIT_${provider.toUpperCase()}`;
+  const read = (name: string, fallback: number | null) => {
+    const value = process.env[`${prefix}_${name}`];
+    return value === undefined || value === '' || isNaN(Number(value)) ? fallback : Number(value);
+  };
+
+  const dailyQuota = read('DAILY_QUOTA', base.dailyQuota);
+  return {
+    maxConcurrent: Math.max(1, read('MAX_CONCURRENT', base.maxConcurrent) as number),
+    perMinute: Math.max(1, read('PER_MINUTE', base.perMinute) as number),
+    burst: Math.max(1, read('BURST', base.burst) as number),
+    dailyQuota: dailyQuota && dailyQuota > 0 ? dailyQuota : null,
+  };
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Queues calls to one provider so that at most maxConcurrent run at once, they start no faster than the
+ * token bucket allows, and no more than dailyQuota start per UTC day. Calls over the quota fail immediately.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private day = currentDay();
+  private usedToday = 0;
+  private rejectedToday = 0;
+
+  constructor(
+    public readonly provider: string,
+    public readonly limit: RateLimit
+  ) {
+    this.tokens = limit.burst;
+  }
+
+  /**
+   * Run fn once the provider's limits allow it
+   * @throws QuotaExceededError if the daily quota is used up
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    this.rollOverDay();
+    if (this.limit.dailyQuota !== null && this.usedToday >= this.limit.dailyQuota) {
+      this.rejectedToday++;
+      console.warn(`⚠️ ${this.provider} daily quota of ${this.limit.dailyQuota} calls reached`);
+      throw new QuotaExceededError(this.provider, this.limit.dailyQuota);
+    }
+    this.usedToday++;
+
+    await new Promise<void>((resolve) => {
+      this.waiting.push(resolve);
+      this.pump();
+    });
+
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  private rollOverDay(): void {
+    const today = currentDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.usedToday = 0;
+      this.rejectedToday = 0;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.lastRefill) * this.limit.perMinute / 60000);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start as many waiting calls as the limits allow, and schedule a wake-up for when the next token is due
+   */
+  private pump(): void {
+    this.refill();
+    while (this.waiting.length > 0 && this.active < this.limit.maxConcurrent && this.tokens >= 1) {
+      this.tokens--;
+      this.active++;
+      this.waiting.shift()!();
+    }
+
+    if (this.waiting.length > 0 && this.active < this.limit.maxConcurrent && !this.timer) {
+      const waitMs = Math.ceil((1 - this.tokens) * 60000 / this.limit.perMinute);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, waitMs);
+    }
+  }
+
+  getStatus() {
+    this.rollOverDay();
+    this.refill();
+    return {
+      provider: this.provider,
+      limit: this.limit,
+      active: this.active,
+      queued: this.waiting.length,
+      availableTokens: Math.floor(this.tokens),
+      day: this.day,
+      usedToday: this.usedToday,
+      remainingToday: this.limit.dailyQuota === null ? null : Math.max(0, this.limit.dailyQuota - this.usedToday),
+      rejectedToday: this.rejectedToday,
+    };
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Shared rate limiter for a provider; every call to the provider should go through it
+ */
+export function getRateLimiter(provider: string): RateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(provider, configuredLimit(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Limits and current usage of every configured provider and any other provider called so far
+ */
+export function getRateLimiterStatuses() {
+  Object.keys(DEFAULT_LIMITS).forEach(getRateLimiter);
+  return Array.from(limiters.values()).map((limiter) => limiter.getStatus());
+}
@@ -0,0 +1,94 @@
+import {
+  normalizeRegistrationNumber,
+  validateEstonianRegistryCode,
+  validateLithuanianLegalEntityCode,
+  validateRegistrationNumber,
+} from './registrationNumber';
+
+describe('normalizeRegistrationNumber', () => {
+  it('strips separators and the country prefix', () => {
+    expect(normalizeRegistrationNumber(' LV 4000-303.2949 ')).toBe('40003032949');
+    expect(normalizeRegistrationNumber('lv40003032949')).toBe('40003032949');
+    expect(normalizeRegistrationNumber('EE 10137025')).toBe('10137025');
+    expect(normalizeRegistrationNumber('LT-110053842')).toBe('110053842');
+  });
+
+  it('strips only the given country\'s prefix', () => {
+    expect(normalizeRegistrationNumber('LV 40003032949', 'LV')).toBe('40003032949');
+    expect(normalizeRegistrationNumber('EE40003032949', 'LV')).toBe('EE40003032949');
+  });
+});
+
+describe('validateRegistrationNumber', () => {
+  it('accepts a number with a valid check digit', () => {
+    expect(validateRegistrationNumber('40003032949')).toEqual({ valid: true, value: '40003032949' });
+    expect(validateRegistrationNumber('LV 4000 307 4764')).toEqual({ valid: true, value: '40003074764' });
+  });
+
+  it('rejects a typo through the check digit', () => {
+    const result = validateRegistrationNumber('40003032948');
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.reason).toMatch(/check digit/);
+  });
+
+  it('accepts only the Latvian prefix', () => {
+    const result = validateRegistrationNumber('EE40003032949');
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.reason).toMatch(/only digits, optionally prefixed with "LV"/);
+    expect(validateRegistrationNumber('LT40003032949').valid).toBe(false);
+  });
+
+  it('rejects personal identity codes', () => {
+    const result = validateRegistrationNumber('32003032949');
+    expect(!result.valid && result.reason).toMatch(/personal identity code/);
+  });
+
+  it.each([
+    [undefined, /required/],
+    [40003032949, /must be a string/],
+    ['LV', /cannot be empty/],
+    ['4000303294A', /only digits/],
+    ['4000303294', /11 digits, got 10/],
+  ])('rejects %p', (input, reason) => {
+    const result = validateRegistrationNumber(input);
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.reason).toMatch(reason);
+  });
+});
+
+describe('validateEstonianRegistryCode', () => {
+  it('accepts a code with a valid check digit', () => {
+    expect(validateEstonianRegistryCode('10137025')).toEqual({ valid: true, value: '10137025' });
+    expect(validateEstonianRegistryCode('EE10060701')).toEqual({ valid: true, value: '10060701' });
+  });
+
+  it('falls back to the second weights when the first give 10', () => {
+    expect(validateEstonianRegistryCode('10000062')).toEqual({ valid: true, value: '10000062' });
+    expect(validateEstonianRegistryCode('10000063').valid).toBe(false);
+  });
+
+  it('rejects a typo through the check digit', () => {
+    const result = validateEstonianRegistryCode('10137026');
+    expect(!result.valid && result.reason).toMatch(/check digit/);
+  });
+
+  it('rejects numbers of another length', () => {
+    const result = validateEstonianRegistryCode('40003032949');
+    expect(!result.valid && result.reason).toMatch(/8 digits, got 11/);
+  });
+
+  it('rejects another country\'s prefix', () => {
+    expect(validateEstonianRegistryCode('LV10137025').valid).toBe(false);
+  });
+});
+
+describe('validateLithuanianLegalEntityCode', () => {
+  it('accepts a 9-digit code', () => {
+    expect(validateLithuanianLegalEntityCode('LT 110053842')).toEqual({ valid: true, value: '110053842' });
+  });
+
+  it('rejects numbers of another length', () => {
+    const result = validateLithuanianLegalEntityCode('10137025');
+    expect(!result.valid && result.reason).toMatch(/9 digits, got 8/);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Registration number normalization and validation for the Baltic business registers:
+ * Latvian Uzņēmumu reģistra kods, Estonian registrikood and Lithuanian juridinio asmens kodas
+ */
+
+export type RegistrationNumberResult =
+  | { valid: true; value: string }
+  | { valid: false; reason: string };
+
+const REGISTRATION_NUMBER_LENGTH = 11;
+
+// Weights for the legal entity checksum; the weighted digit sum mod 11 must equal 3
+const CHECKSUM_WEIGHTS = [9, 1, 4, 8, 3, 10, 2, 5, 7, 6, 1];
+
+const ESTONIAN_CODE_LENGTH = 8;
+const LITHUANIAN_CODE_LENGTH = 9;
+
+/**
+ * Strip separators and an optional country (VAT) prefix.
+ * e.g. "LV 4000-301-2345" → "40003012345"
+ * @param countryCode - Only strip this country's prefix; any Baltic prefix when not given
+ */
+export function normalizeRegistrationNumber(input: string, countryCode?: string): string {
+  const prefix = countryCode ? new RegExp(`^${countryCode}`, 'i') : /^(LV|EE|LT)/i;
+  return input
+    .trim()
+    .replace(prefix, '')
+    .replace(/[\s.\-/]/g, '');
+}
+
+/**
+ * Checks shared by every country: present, a string, digits only and of the expected length
+ * @param prefix - The only country prefix accepted in front of the number
+ */
+function validateDigits(input: unknown, length: number, prefix: string): RegistrationNumberResult {
+  if (input === undefined || input === null || input === '') {
+    return { valid: false, reason: 'Company registration number is required' };
+  }
+
+  if (typeof input !== 'string') {
+    return { valid: false, reason: 'Company registration number must be a string' };
+  }
+
+  const value = normalizeRegistrationNumber(input, prefix);
+
+  if (value.length === 0) {
+    return { valid: false, reason: 'Company registration number cannot be empty' };
+  }
+
+  if (!/^\d+$/.test(value)) {
+    return { valid: false, reason: `Registration number must contain only digits, optionally prefixed with "${prefix}"` };
+  }
+
+  if (value.length !== length) {
+    return { valid: false, reason: `Registration number must have ${length} digits, got ${value.length}` };
+  }
+
+  return { valid: true, value };
+}
+
+/**
+ * Normalize and validate a Latvian legal entity registration number
+ * @returns The 11-digit number, or the reason it is invalid
+ */
+export function validateRegistrationNumber(input: unknown): RegistrationNumberResult {
+  const result = validateDigits(input, REGISTRATION_NUMBER_LENGTH, 'LV');
+  if (!result.valid) return result;
+  const { value } = result;
+
+  // Codes starting with 0-3 are personal identity codes, not legal entities
+  if (value[0] <= '3') {
+    return { valid: false, reason: 'Registration number looks like a personal identity code, not a company registration number' };
+  }
+
+  const checksum = CHECKSUM_WEIGHTS.reduce((sum, weight, i) => sum + weight * Number(value[i]), 0) % 11;
+  if (checksum !== 3) {
+    return { valid: false, reason: 'Registration number check digit is invalid, please check for typos' };
+  }
+
+  return { valid: true, value };
+}
+
+/**
+ * Normalize and validate an Estonian registry code (registrikood)
+ * @returns The 8-digit code, or the reason it is invalid
+ */
+export function validateEstonianRegistryCode(input: unknown): RegistrationNumberResult {
+  const result = validateDigits(input, ESTONIAN_CODE_LENGTH, 'EE');
+  if (!result.valid) return result;
+  const { value } = result;
+
+  // Check digit: weights 1..7 mod 11, retried with weights 3..9 when that gives 10; 10 again means 0
+  const weightedSum = (offset: number) =>
+    Array.from(value.slice(0, 7)).reduce((sum, digit, i) => sum + ((i + offset) % 9 + 1) * Number(digit), 0) % 11;
+  let checkDigit = weightedSum(0);
+  if (checkDigit === 10) {
+    checkDigit = weightedSum(2) % 10;
+  }
+
+  if (checkDigit !== Number(value[7])) {
+    return { valid: false, reason: 'Registry code check digit is invalid, please check for typos' };
+  }
+
+  return { valid: true, value };
+}
+
+/**
+ * Normalize and validate a Lithuanian legal entity code (juridinio asmens kodas)
+ * @returns The 9-digit code, or the reason it is invalid
+ */
+export function validateLithuanianLegalEntityCode(input: unknown): RegistrationNumberResult {
+  return validateDigits(input, LITHUANIAN_CODE_LENGTH, 'LT');
+}
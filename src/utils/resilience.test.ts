@@ -0,0 +1,63 @@
+import { CircuitBreaker, CircuitOpenError } from './resilience';
+import { QuotaExceededError } from './rateLimit';
+
+const fail = async () => { throw new Error('503'); };
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('opens after the failure threshold and rejects calls until the reset timeout', async () => {
+    const breaker = new CircuitBreaker('test', 2, 60000);
+    await expect(breaker.execute(fail)).rejects.toThrow('503');
+    await expect(breaker.execute(fail)).rejects.toThrow('503');
+
+    const fn = jest.fn(async () => 'ok');
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.getStatus().state).toBe('open');
+  });
+
+  it('lets exactly one trial call through when half-open', async () => {
+    const breaker = new CircuitBreaker('test', 1, 60000);
+    await expect(breaker.execute(fail)).rejects.toThrow('503');
+    jest.setSystemTime(new Date('2026-10-19T12:01:00Z'));
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => { finishTrial = resolve; }));
+    const concurrent = jest.fn(async () => 'ok');
+
+    await expect(breaker.execute(concurrent)).rejects.toThrow(/waiting for the trial call/);
+    expect(concurrent).not.toHaveBeenCalled();
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getStatus().state).toBe('closed');
+    await expect(breaker.execute(concurrent)).resolves.toBe('ok');
+  });
+
+  it('opens again at once when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('test', 3, 60000);
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('503');
+    }
+    jest.setSystemTime(new Date('2026-10-19T12:01:00Z'));
+
+    await expect(breaker.execute(fail)).rejects.toThrow('503');
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: '2026-10-19T12:01:00.000Z' });
+  });
+
+  it('does not count quota rejections as failures', async () => {
+    const breaker = new CircuitBreaker('test', 1, 60000);
+    await expect(breaker.execute(async () => { throw new QuotaExceededError('test', 10); }))
+      .rejects.toBeInstanceOf(QuotaExceededError);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+});
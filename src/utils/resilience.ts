@@ -0,0 +1,160 @@
+/**
+ * Retry with backoff and per-provider circuit breakers for outbound calls
+ */
+
+import axios from 'axios';
+import { QuotaExceededError } from './rateLimit';
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Return false to fail immediately on errors that will not go away by retrying */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run fn, retrying with exponential backoff and jitter
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const shouldRetry = options.shouldRetry || (() => true);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = options.baseDelayMs * Math.pow(2, attempt) * (0.75 + Math.random() * 0.5);
+      console.warn(`⏳ Attempt ${attempt + 1} failed (${describeError(error)}), retrying in ${Math.round(delay)}ms...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Network errors, timeouts, 429 and 5xx responses are worth retrying; other HTTP errors
+ * and a used-up daily quota are not
+ */
+export function isTransientHttpError(error: unknown): boolean {
+  if (error instanceof QuotaExceededError) return false;
+  if (!axios.isAxiosError(error)) return true;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Short, loggable description of an error
+ */
+export function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `HTTP ${error.response.status}: ${error.message}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class CircuitOpenError extends Error {
+  /**
+   * @param retryAt - When the cool-down ends; null while the trial call after the cool-down is still running
+   */
+  constructor(provider: string, retryAt: Date | null) {
+    super(retryAt
+      ? `${provider} circuit open after repeated failures, retrying after ${retryAt.toISOString()}`
+      : `${provider} circuit half-open, waiting for the trial call to finish`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops calling a failing provider for a cool-down period after consecutive failures.
+ * After the cool-down exactly one trial call is let through, and other calls are rejected until it settles:
+ * success closes the circuit again, failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    public readonly provider: string,
+    private readonly failureThreshold: number = 5,
+    private readonly resetTimeoutMs: number = 60000
+  ) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+        throw new CircuitOpenError(this.provider, new Date(this.openedAt + this.resetTimeoutMs));
+      }
+      this.state = 'half-open';
+    }
+
+    const isTrial = this.state === 'half-open';
+    if (isTrial) {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.provider, null);
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.consecutiveFailures = 0;
+      this.state = 'closed';
+      return result;
+    } catch (error) {
+      // A provider we have stopped calling for the day is not failing
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      this.consecutiveFailures++;
+      if (isTrial || this.consecutiveFailures >= this.failureThreshold) {
+        console.error(`🔌 Circuit for ${this.provider} opened after ${this.consecutiveFailures} consecutive failures`);
+        this.state = 'open';
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  getStatus() {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Shared circuit breaker for a provider
+ */
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Status of every breaker created so far
+ */
+export function getCircuitBreakerStatuses() {
+  return Array.from(breakers.values()).map((breaker) => breaker.getStatus());
+}
@@ -0,0 +1,101 @@
+import { classifyCandidate, hashListedEntity, SanctionCandidate, weighEvidence, weighPersonEvidence } from './sanctionsMatch';
+
+const query = { name: 'Baltijas Nafta', registration_number: '40003032949', country: 'LV' };
+
+describe('weighEvidence', () => {
+  it('treats our registration number on the listed entity as decisive', () => {
+    const result = weighEvidence(0.5, { registration_numbers: ['4000 303 2949'], countries: ['ru'] }, query);
+    expect(result).toEqual({ score: 1, evidence: { name_score: 0.5, identifier_match: true, conflicts: [] } });
+  });
+
+  it('accepts the VAT form of the registration number', () => {
+    const result = weighEvidence(0.5, { registration_numbers: ['LV40003032949'], countries: [] }, query);
+    expect(result.evidence.identifier_match).toBe(true);
+  });
+
+  it('down-ranks a different jurisdiction and different registration numbers', () => {
+    const result = weighEvidence(0.9, { registration_numbers: ['1027700132195'], countries: ['ru'] }, query);
+    expect(result.score).toBe(0.504);
+    expect(result.evidence.identifier_match).toBe(false);
+    expect(result.evidence.conflicts).toHaveLength(2);
+  });
+
+  it('keeps the name score when the listed entity has nothing to compare', () => {
+    const result = weighEvidence(0.9, { registration_numbers: [], countries: [] }, query);
+    expect(result.score).toBe(0.9);
+    expect(result.evidence.conflicts).toEqual([]);
+  });
+});
+
+describe('weighPersonEvidence', () => {
+  it('accepts a birth date of different precision', () => {
+    const result = weighPersonEvidence(0.9, { birth_dates: ['1965'], countries: ['lv'] }, {
+      name: 'Jānis Bērziņš', birth_date: '1965-03-12', nationality: 'LV',
+    });
+    expect(result.score).toBe(0.9);
+  });
+
+  it('down-ranks a different birth date and nationality', () => {
+    const result = weighPersonEvidence(0.9, { birth_dates: ['1971-01-01'], countries: ['ru'] }, {
+      name: 'Jānis Bērziņš', birth_date: '1965-03-12', nationality: 'LV',
+    });
+    expect(result.score).toBe(0.459);
+    expect(result.evidence.conflicts).toHaveLength(2);
+  });
+});
+
+describe('classifyCandidate', () => {
+  afterEach(() => {
+    delete process.env.SANCTIONS_HIT_THRESHOLD_SANCTION;
+  });
+
+  it('applies the thresholds of the most severe topic', () => {
+    expect(classifyCandidate(0.85, ['crime', 'sanction'])).toEqual({ classification: 'hit', topic_category: 'sanction' });
+    expect(classifyCandidate(0.85, ['crime'])).toEqual({ classification: 'possible_match', topic_category: 'crime' });
+    expect(classifyCandidate(0.5, ['role.pep'])).toEqual({ classification: 'discarded', topic_category: 'pep' });
+  });
+
+  it('classifies an identifier match as a hit whatever the score', () => {
+    expect(classifyCandidate(0.3, ['sanction'], true).classification).toBe('hit');
+  });
+
+  it('reads threshold overrides from the environment', () => {
+    process.env.SANCTIONS_HIT_THRESHOLD_SANCTION = '0.95';
+    expect(classifyCandidate(0.85, ['sanction']).classification).toBe('possible_match');
+  });
+});
+
+describe('hashListedEntity', () => {
+  const candidate: SanctionCandidate = {
+    id: 'NK-abc123',
+    caption: 'Baltijas Nafta',
+    schema: 'Company',
+    score: 0.9,
+    matched_name: 'Baltijas Nafta',
+    datasets: ['eu_fsf', 'us_ofac_sdn'],
+    topics: ['sanction'],
+    countries: ['lv', 'ru'],
+    source_urls: [],
+    registration_numbers: ['40003032949'],
+    evidence: { name_score: 0.9, identifier_match: false, conflicts: [] },
+    classification: 'hit',
+    topic_category: 'sanction',
+  };
+
+  it('ignores the query-dependent score, evidence and list order', () => {
+    const requeried: SanctionCandidate = {
+      ...candidate,
+      score: 0.7,
+      evidence: { name_score: 0.7, identifier_match: false, conflicts: ['Listed in ru, not ee'] },
+      classification: 'possible_match',
+      datasets: ['us_ofac_sdn', 'eu_fsf'],
+      countries: ['ru', 'lv'],
+    };
+    expect(hashListedEntity(requeried)).toBe(hashListedEntity(candidate));
+  });
+
+  it('changes when the listed data changes', () => {
+    expect(hashListedEntity({ ...candidate, datasets: ['eu_fsf'] })).not.toBe(hashListedEntity(candidate));
+    expect(hashListedEntity({ ...candidate, topics: ['sanction', 'crime'] })).not.toBe(hashListedEntity(candidate));
+  });
+});
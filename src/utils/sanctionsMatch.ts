@@ -0,0 +1,282 @@
+/**
+ * Sanctions screening candidates and their classification into hit / possible match / discarded
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * - hit: close enough to treat the company as listed
+ * - possible_match: needs an analyst to confirm or dismiss
+ * - discarded: returned by the screening but too dissimilar to act on
+ */
+export type MatchClassification = 'hit' | 'possible_match' | 'discarded';
+
+/**
+ * Groups of list topics with their own thresholds
+ */
+export type TopicCategory = 'sanction' | 'debarment' | 'crime' | 'pep' | 'other';
+
+export interface MatchThresholds {
+  /** Minimum score for a hit */
+  hit: number;
+  /** Minimum score for a possible match */
+  possible: number;
+}
+
+export type AdjudicationDecision = 'false_positive' | 'true_match';
+
+/**
+ * An analyst's stored decision as applied to a candidate
+ */
+export interface CandidateAdjudication {
+  id: string;
+  decision: AdjudicationDecision;
+  comment: string | null;
+  analyst: string | null;
+  decided_at: string;
+  /** applied: decision overrides the classification; invalidated: listed data changed since the decision */
+  status: 'applied' | 'invalidated';
+}
+
+/**
+ * The company being screened; everything besides the name is optional
+ */
+export interface CompanyScreeningQuery {
+  name: string;
+  registration_number?: string | null;
+  /** ISO 3166 alpha-2 country of registration */
+  country?: string | null;
+  address?: string | null;
+}
+
+/**
+ * A natural person being screened; everything besides the name is optional
+ */
+export interface PersonScreeningQuery {
+  name: string;
+  /** yyyy-mm-dd, or a shorter prefix (yyyy, yyyy-mm) when only partly known */
+  birth_date?: string | null;
+  /** ISO 3166 alpha-2 */
+  nationality?: string | null;
+}
+
+/**
+ * How identifiers and jurisdiction affected a candidate's score
+ */
+export interface MatchEvidence {
+  /** Score from the name comparison (or the provider) before adjustments */
+  name_score: number;
+  /** The listed entity carries our registration number: decisive, always a hit */
+  identifier_match: boolean;
+  /** Reasons the candidate was down-ranked */
+  conflicts: string[];
+}
+
+/**
+ * A listed entity returned by sanctions screening, with why and how well it matched
+ */
+export interface SanctionCandidate {
+  id: string;
+  caption: string;
+  /** FollowTheMoney schema: Person, Company, Organization, LegalEntity, ... */
+  schema: string;
+  /** 0..1 after identifier and jurisdiction adjustments, see evidence */
+  score: number;
+  /** The listed name or alias that matched best */
+  matched_name: string;
+  datasets: string[];
+  topics: string[];
+  countries: string[];
+  source_urls: string[];
+  /** Registration, tax and similar identifiers of the listed entity */
+  registration_numbers: string[];
+  /** Listed birth dates, for persons */
+  birth_dates?: string[];
+  evidence: MatchEvidence;
+  classification: MatchClassification;
+  /** Topic category whose thresholds were applied */
+  topic_category: TopicCategory;
+  /** Analyst decision on this candidate for the screened company, if any */
+  adjudication?: CandidateAdjudication;
+}
+
+// Most severe first: an entity listed under several topics is judged by the first one it has
+const TOPIC_CATEGORIES: Array<[TopicCategory, (topic: string) => boolean]> = [
+  ['sanction', (topic) => topic === 'sanction' || topic.startsWith('sanction.')],
+  ['debarment', (topic) => topic === 'debarment'],
+  ['crime', (topic) => topic === 'crime' || topic.startsWith('crime.')],
+  // Politically exposed persons and their relatives and close associates
+  ['pep', (topic) => topic === 'role.pep' || topic === 'role.rca'],
+];
+
+// Score multipliers for candidates that contradict the screened company
+const JURISDICTION_CONFLICT_FACTOR = 0.8;
+const REGISTRATION_CONFLICT_FACTOR = 0.7;
+const BIRTH_DATE_CONFLICT_FACTOR = 0.6;
+const NATIONALITY_CONFLICT_FACTOR = 0.85;
+
+const DEFAULT_THRESHOLDS: Record<TopicCategory, MatchThresholds> = {
+  sanction: { hit: 0.8, possible: 0.6 },
+  debarment: { hit: 0.85, possible: 0.7 },
+  crime: { hit: 0.9, possible: 0.7 },
+  pep: { hit: 0.9, possible: 0.75 },
+  other: { hit: 0.9, possible: 0.75 },
+};
+
+/**
+ * Topic category of a listed entity
+ * @param topics - OpenSanctions topic tags, e.g. ["sanction", "crime.fin"]
+ */
+export function getTopicCategory(topics: string[]): TopicCategory {
+  for (const [category, matches] of TOPIC_CATEGORIES) {
+    if (topics.some(matches)) return category;
+  }
+  return 'other';
+}
+
+/**
+ * Thresholds for a topic category, overridable with
+ * SANCTIONS_HIT_THRESHOLD_<CATEGORY> and SANCTIONS_POSSIBLE_THRESHOLD_<CATEGORY> (0..1)
+ */
+export function getMatchThresholds(category: TopicCategory): MatchThresholds {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = parseFloat(process.env[`${name}_${category.toUpperCase()}`] || '');
+    return Number.isFinite(value) ? value : fallback;
+  };
+
+  const defaults = DEFAULT_THRESHOLDS[category];
+  return {
+    hit: fromEnv('SANCTIONS_HIT_THRESHOLD', defaults.hit),
+    possible: fromEnv('SANCTIONS_POSSIBLE_THRESHOLD', defaults.possible),
+  };
+}
+
+/**
+ * Compare identifiers without case, spaces or punctuation
+ */
+export const normalizeIdentifier = (value: string) => value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+/**
+ * Adjust a name score with the identifiers and countries of a listed entity:
+ * our registration number on the listed entity is decisive; a different jurisdiction,
+ * or different registration numbers, down-rank the candidate
+ * @param countries - Lower-case ISO codes of the listed entity
+ */
+export function weighEvidence(
+  nameScore: number,
+  listed: { registration_numbers: string[]; countries: string[] },
+  query: CompanyScreeningQuery
+): { score: number; evidence: MatchEvidence } {
+  const ours = query.registration_number ? normalizeIdentifier(query.registration_number) : '';
+  const country = query.country?.toLowerCase() || '';
+  const theirs = listed.registration_numbers.map(normalizeIdentifier).filter(Boolean);
+
+  // Also accept the VAT form, e.g. LV40003012345
+  if (ours && theirs.some((number) => number === ours || number === `${country.toUpperCase()}${ours}`)) {
+    return { score: 1, evidence: { name_score: nameScore, identifier_match: true, conflicts: [] } };
+  }
+
+  let score = nameScore;
+  const conflicts: string[] = [];
+
+  if (country && listed.countries.length > 0 && !listed.countries.includes(country)) {
+    score *= JURISDICTION_CONFLICT_FACTOR;
+    conflicts.push(`Listed in ${listed.countries.join(', ')}, not ${country}`);
+  }
+  if (ours && theirs.length > 0) {
+    score *= REGISTRATION_CONFLICT_FACTOR;
+    conflicts.push(`Listed identifiers ${listed.registration_numbers.join(', ')} do not include ${query.registration_number}`);
+  }
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    evidence: { name_score: nameScore, identifier_match: false, conflicts },
+  };
+}
+
+/**
+ * Adjust a name score with the birth dates and nationalities of a listed person.
+ * Dates of different precision agree when one is a prefix of the other (1965 vs 1965-03-12).
+ * @param countries - Lower-case ISO codes of the listed person
+ */
+export function weighPersonEvidence(
+  nameScore: number,
+  listed: { birth_dates: string[]; countries: string[] },
+  query: PersonScreeningQuery
+): { score: number; evidence: MatchEvidence } {
+  let score = nameScore;
+  const conflicts: string[] = [];
+
+  const birthDate = query.birth_date || '';
+  if (birthDate && listed.birth_dates.length > 0
+    && !listed.birth_dates.some((date) => date.startsWith(birthDate) || birthDate.startsWith(date))) {
+    score *= BIRTH_DATE_CONFLICT_FACTOR;
+    conflicts.push(`Born ${listed.birth_dates.join(', ')}, not ${birthDate}`);
+  }
+
+  const nationality = query.nationality?.toLowerCase() || '';
+  if (nationality && listed.countries.length > 0 && !listed.countries.includes(nationality)) {
+    score *= NATIONALITY_CONFLICT_FACTOR;
+    conflicts.push(`Linked to ${listed.countries.join(', ')}, not ${nationality}`);
+  }
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    evidence: { name_score: nameScore, identifier_match: false, conflicts },
+  };
+}
+
+/**
+ * Classify a candidate's score using the thresholds of its topic category.
+ * An identifier match is a hit regardless of score.
+ */
+export function classifyCandidate(
+  score: number,
+  topics: string[],
+  identifierMatch: boolean = false
+): Pick<SanctionCandidate, 'classification' | 'topic_category'> {
+  const category = getTopicCategory(topics);
+  const thresholds = getMatchThresholds(category);
+
+  const classification: MatchClassification = identifierMatch || score >= thresholds.hit
+    ? 'hit'
+    : score >= thresholds.possible ? 'possible_match' : 'discarded';
+
+  return { classification, topic_category: category };
+}
+
+/**
+ * Fingerprint of the listed entity's data, independent of the query that found it.
+ * An adjudication stays valid only while this is unchanged.
+ */
+export function hashListedEntity(candidate: SanctionCandidate): string {
+  const sorted = (values: string[] | undefined) => [...(values || [])].sort();
+  const listed = {
+    id: candidate.id,
+    caption: candidate.caption,
+    schema: candidate.schema,
+    datasets: sorted(candidate.datasets),
+    topics: sorted(candidate.topics),
+    countries: sorted(candidate.countries),
+    registration_numbers: sorted(candidate.registration_numbers),
+    birth_dates: sorted(candidate.birth_dates),
+  };
+  return createHash('sha256').update(JSON.stringify(listed)).digest('hex');
+}
+
+/**
+ * Split classified candidates and derive the sanctions flags from the hits
+ */
+export function summarizeCandidates(candidates: SanctionCandidate[]) {
+  const hits = candidates.filter((candidate) => candidate.classification === 'hit');
+
+  return {
+    hits,
+    possibleMatches: candidates.filter((candidate) => candidate.classification === 'possible_match'),
+    /** Only hits on sanction lists; debarment and crime hits are reported separately */
+    isSanctioned: hits.some((candidate) => candidate.topic_category === 'sanction'),
+    /** Hits tagged as politically exposed, whatever their category */
+    isPep: hits.some((candidate) => candidate.topics.some((topic) => topic === 'role.pep' || topic === 'role.rca')),
+    sources: Array.from(new Set(hits.flatMap((candidate) => candidate.datasets))),
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Deduplicates repeated string values (legal forms, regions, tax explanations)
+ * so that millions of parsed rows share one copy of each distinct value.
+ */
+export class StringPool {
+  private pool: Map<string, string> = new Map();
+
+  intern(value: string): string {
+    if (value === '') return '';
+    const existing = this.pool.get(value);
+    if (existing !== undefined) return existing;
+    this.pool.set(value, value);
+    return value;
+  }
+
+  get size(): number {
+    return this.pool.size;
+  }
+}
@@ -0,0 +1,63 @@
+import { buildTaxRating, parseTaxRatingDate, parseTaxRatingGrade, TaxRatingGrade } from './taxRating';
+
+describe('parseTaxRatingGrade', () => {
+  it('reads the letter grade, in any case and with surrounding spaces', () => {
+    expect(parseTaxRatingGrade('A')).toBe(TaxRatingGrade.A);
+    expect(parseTaxRatingGrade(' b ')).toBe(TaxRatingGrade.B);
+    expect(parseTaxRatingGrade('C')).toBe(TaxRatingGrade.C);
+    expect(parseTaxRatingGrade('N')).toBe(TaxRatingGrade.N);
+  });
+
+  it('falls back to keywords in the explanation when the grade is missing', () => {
+    expect(parseTaxRatingGrade('', 'Augsts reitings')).toBe(TaxRatingGrade.A);
+    expect(parseTaxRatingGrade('', 'Vidējs reitings')).toBe(TaxRatingGrade.B);
+    expect(parseTaxRatingGrade('', 'Zems reitings')).toBe(TaxRatingGrade.C);
+    expect(parseTaxRatingGrade('', 'Reitings nav piešķirts')).toBe(TaxRatingGrade.N);
+  });
+
+  it('is UNKNOWN when neither the grade nor the explanation is recognised', () => {
+    expect(parseTaxRatingGrade('X', 'Nezināms')).toBe(TaxRatingGrade.UNKNOWN);
+    expect(parseTaxRatingGrade('')).toBe(TaxRatingGrade.UNKNOWN);
+  });
+});
+
+describe('parseTaxRatingDate', () => {
+  it('parses ISO and Latvian dates to UTC midnight', () => {
+    expect(parseTaxRatingDate('2024-05-06')).toEqual(new Date('2024-05-06T00:00:00Z'));
+    expect(parseTaxRatingDate('2024-05-06T13:45:00')).toEqual(new Date('2024-05-06T00:00:00Z'));
+    expect(parseTaxRatingDate('06.05.2024')).toEqual(new Date('2024-05-06T00:00:00Z'));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseTaxRatingDate('')).toBeNull();
+    expect(parseTaxRatingDate('6/5/2024')).toBeNull();
+  });
+});
+
+describe('buildTaxRating', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('describes the grade and its age', () => {
+    expect(buildTaxRating('A', 'Augsts reitings', '2026-10-09', 90, now)).toEqual({
+      grade: TaxRatingGrade.A,
+      meaning: 'High rating - reliable taxpayer',
+      raw_rating: 'A',
+      explanation: 'Augsts reitings',
+      updated_at: new Date('2026-10-09T00:00:00Z'),
+      age_days: 10,
+      is_stale: false,
+    });
+  });
+
+  it('marks a rating stale only once it is older than the maximum age', () => {
+    expect(buildTaxRating('A', '', '2026-07-21', 90, now).is_stale).toBe(false);
+    expect(buildTaxRating('A', '', '2026-07-20', 90, now).is_stale).toBe(true);
+  });
+
+  it('treats an undated rating as stale', () => {
+    const rating = buildTaxRating('B', '', '', 90, now);
+
+    expect(rating.age_days).toBeNull();
+    expect(rating.is_stale).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * VID (State Revenue Service) taxpayer rating model for taxpayer_rating.csv
+ */
+
+import { foldDiacritics } from './companyName';
+
+/**
+ * Letter grade from the `Reitings` column
+ */
+export enum TaxRatingGrade {
+  /** High rating: reliable taxpayer without material compliance issues */
+  A = 'A',
+  /** Medium rating: some compliance issues, e.g. late declarations or small tax debts */
+  B = 'B',
+  /** Low rating: significant tax debts or repeated compliance violations */
+  C = 'C',
+  /** Not rated: newly registered taxpayer without enough history */
+  N = 'N',
+  /** Grade missing or not recognised */
+  UNKNOWN = 'UNKNOWN',
+}
+
+export const TAX_RATING_MEANINGS: Record<TaxRatingGrade, string> = {
+  [TaxRatingGrade.A]: 'High rating - reliable taxpayer',
+  [TaxRatingGrade.B]: 'Medium rating - some tax compliance issues',
+  [TaxRatingGrade.C]: 'Low rating - significant tax debts or compliance violations',
+  [TaxRatingGrade.N]: 'Not rated - new taxpayer',
+  [TaxRatingGrade.UNKNOWN]: 'Rating not recognised',
+};
+
+// Keywords in the Latvian `Skaidrojums` text, used when the grade column is empty
+const EXPLANATION_KEYWORDS: Array<[RegExp, TaxRatingGrade]> = [
+  [/augst/, TaxRatingGrade.A],
+  [/videj/, TaxRatingGrade.B],
+  [/zem/, TaxRatingGrade.C],
+  [/jaun|nav pieskirt|netiek pieskirt/, TaxRatingGrade.N],
+];
+
+/**
+ * Parsed taxpayer rating as exposed in aggregate data and the risk profile
+ */
+export interface TaxRating {
+  grade: TaxRatingGrade;
+  meaning: string;
+  /** Original `Reitings` value */
+  raw_rating: string;
+  /** Original Latvian `Skaidrojums` value */
+  explanation: string;
+  updated_at: Date | null;
+  age_days: number | null;
+  /** Rating is older than the configured maximum age */
+  is_stale: boolean;
+}
+
+/**
+ * Map the `Reitings` and `Skaidrojums` columns to a grade
+ */
+export function parseTaxRatingGrade(rating: string, explanation: string = ''): TaxRatingGrade {
+  const letter = rating.trim().toUpperCase();
+  if (Object.values(TaxRatingGrade).includes(letter as TaxRatingGrade)) {
+    return letter as TaxRatingGrade;
+  }
+
+  const folded = foldDiacritics(explanation);
+  for (const [pattern, grade] of EXPLANATION_KEYWORDS) {
+    if (pattern.test(folded)) return grade;
+  }
+
+  return TaxRatingGrade.UNKNOWN;
+}
+
+/**
+ * Parse the update date, accepting ISO (2024-05-06) and Latvian (06.05.2024) formats
+ * @returns The date at UTC midnight, or null if unparseable
+ */
+export function parseTaxRatingDate(value: string): Date | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  const latvian = /^(\d{2})\.(\d{2})\.(\d{4})/.exec(value.trim());
+  const parts = iso ? [iso[1], iso[2], iso[3]] : latvian ? [latvian[3], latvian[2], latvian[1]] : null;
+  if (!parts) return null;
+
+  const date = new Date(Date.UTC(Number(parts[0]), Number(parts[1]) - 1, Number(parts[2])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Build the rating model for a company
+ * @param maxAgeDays - Ratings updated longer ago than this are marked stale
+ */
+export function buildTaxRating(
+  rating: string,
+  explanation: string,
+  updatedDate: string,
+  maxAgeDays: number,
+  now: Date = new Date()
+): TaxRating {
+  const grade = parseTaxRatingGrade(rating, explanation);
+  const updatedAt = parseTaxRatingDate(updatedDate);
+  const ageDays = updatedAt ? Math.floor((now.getTime() - updatedAt.getTime()) / 86400000) : null;
+
+  return {
+    grade,
+    meaning: TAX_RATING_MEANINGS[grade],
+    raw_rating: rating,
+    explanation,
+    updated_at: updatedAt,
+    age_days: ageDays,
+    // An undated rating cannot be trusted to be current
+    is_stale: ageDays === null || ageDays > maxAgeDays,
+  };
+}
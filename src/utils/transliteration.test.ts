@@ -0,0 +1,26 @@
+import { cyrillicToLatin, hasCyrillic, latinToCyrillic } from './transliteration';
+
+describe('hasCyrillic', () => {
+  it('detects Cyrillic letters anywhere in the text', () => {
+    expect(hasCyrillic('Baltijas Nafta')).toBe(false);
+    expect(hasCyrillic('ООО Ромашка')).toBe(true);
+    expect(hasCyrillic('Baltija Нафта')).toBe(true);
+  });
+});
+
+describe('cyrillicToLatin', () => {
+  it('romanizes Russian names', () => {
+    expect(cyrillicToLatin('ООО Сбербанк')).toBe('OOO Sberbank');
+    expect(cyrillicToLatin('Ромашка')).toBe('Romashka');
+  });
+
+  it('leaves Latin text unchanged', () => {
+    expect(cyrillicToLatin('Baltijas Nafta')).toBe('Baltijas Nafta');
+  });
+});
+
+describe('latinToCyrillic', () => {
+  it('spells Latvian names the way the Russian-language press does', () => {
+    expect(latinToCyrillic('Baltijas Nafta')).toBe('Балтияс Нафта');
+  });
+});
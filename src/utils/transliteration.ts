@@ -0,0 +1,79 @@
+/**
+ * Cyrillic ↔ Latin transliteration for name matching (Russian, Ukrainian and Belarusian letters)
+ */
+
+// Lower-case Cyrillic → Latin, close to the BGN/PCGN romanization used by most sanctions lists
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z',
+  'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r',
+  'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch',
+  'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u',
+};
+
+// Lower-case Latin → Cyrillic, longest sequences first. Latvian "j" reads as "й" (Jānis → Янис).
+const LATIN_TO_CYRILLIC: Array<[string, string]> = [
+  ['shch', 'щ'], ['zh', 'ж'], ['kh', 'х'], ['ts', 'ц'], ['ch', 'ч'], ['sh', 'ш'],
+  ['ya', 'я'], ['yu', 'ю'], ['yo', 'ё'], ['ja', 'я'], ['ju', 'ю'], ['je', 'е'],
+  ['a', 'а'], ['b', 'б'], ['c', 'ц'], ['d', 'д'], ['e', 'е'], ['f', 'ф'], ['g', 'г'], ['h', 'х'],
+  ['i', 'и'], ['j', 'й'], ['k', 'к'], ['l', 'л'], ['m', 'м'], ['n', 'н'], ['o', 'о'], ['p', 'п'],
+  ['q', 'к'], ['r', 'р'], ['s', 'с'], ['t', 'т'], ['u', 'у'], ['v', 'в'], ['w', 'в'], ['x', 'кс'],
+  ['y', 'и'], ['z', 'з'],
+];
+
+const CYRILLIC_PATTERN = /[\u0400-\u04ff]/;
+
+/**
+ * Whether a string contains Cyrillic letters
+ */
+export function hasCyrillic(value: string): boolean {
+  return CYRILLIC_PATTERN.test(value);
+}
+
+// Longest Latin sequence in LATIN_TO_CYRILLIC
+const MAX_LOOKAHEAD = 4;
+
+/**
+ * Apply a lower-case mapping to a string, keeping the capitalisation of each replaced letter
+ * @param map - Receives the next few lower-cased characters, returns the replacement and how many it consumed
+ */
+function mapPreservingCase(value: string, map: (ahead: string) => [string, number] | null): string {
+  let output = '';
+  let i = 0;
+  while (i < value.length) {
+    const mapped = map(value.slice(i, i + MAX_LOOKAHEAD).toLowerCase());
+    if (!mapped) {
+      output += value[i];
+      i++;
+      continue;
+    }
+
+    const [replacement, consumed] = mapped;
+    const isUpper = value[i] !== value[i].toLowerCase();
+    output += isUpper ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+    i += consumed;
+  }
+  return output;
+}
+
+/**
+ * Romanize Cyrillic letters, leaving everything else untouched
+ * e.g. "ООО Сбербанк" → "OOO Sberbank"
+ */
+export function cyrillicToLatin(value: string): string {
+  if (!hasCyrillic(value)) return value;
+  return mapPreservingCase(value, (ahead) =>
+    ahead[0] in CYRILLIC_TO_LATIN ? [CYRILLIC_TO_LATIN[ahead[0]], 1] : null
+  );
+}
+
+/**
+ * Write ASCII Latin letters in Cyrillic, leaving everything else untouched
+ * e.g. "Baltijas Nafta" → "Балтияс Нафта"
+ */
+export function latinToCyrillic(value: string): string {
+  return mapPreservingCase(value, (ahead) => {
+    const match = LATIN_TO_CYRILLIC.find(([latin]) => ahead.startsWith(latin));
+    return match ? [match[1], match[0].length] : null;
+  });
+}
@@ -0,0 +1,25 @@
+-- Analyst decisions on sanctions/PEP screening candidates (see src/services/adjudication.service.ts).
+-- One decision per company and listed entity; entity_hash is the listed data the decision was made against.
+create table if not exists public.screening_adjudications (
+  id uuid primary key default gen_random_uuid(),
+  registration_number text not null,
+  entity_id text not null,
+  entity_caption text,
+  entity_hash text not null,
+  decision text not null check (decision in ('false_positive', 'true_match')),
+  comment text,
+  analyst text,
+  invalidated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (registration_number, entity_id)
+);
+
+alter table public.screening_adjudications enable row level security;
+
+create policy "Authenticated users manage screening adjudications"
+  on public.screening_adjudications
+  for all
+  to authenticated
+  using (true)
+  with check (true);
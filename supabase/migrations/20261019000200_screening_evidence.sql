@@ -0,0 +1,31 @@
+-- Provider requests and responses behind each risk profile (see src/services/evidence.service.ts),
+-- and the versions of the registry datasets the profile was built from.
+alter table public.company_risk_profiles
+  add column if not exists dataset_versions jsonb;
+
+create table if not exists public.screening_evidence (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.company_risk_profiles (id) on delete cascade,
+  registration_number text not null,
+  provider text not null,
+  operation text not null,
+  request jsonb,
+  response jsonb,
+  status text not null check (status in ('ok', 'error')),
+  error text,
+  latency_ms integer not null,
+  requested_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists screening_evidence_profile_id_idx
+  on public.screening_evidence (profile_id, requested_at);
+
+alter table public.screening_evidence enable row level security;
+
+create policy "Authenticated users manage screening evidence"
+  on public.screening_evidence
+  for all
+  to authenticated
+  using (true)
+  with check (true);
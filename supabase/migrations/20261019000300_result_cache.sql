@@ -0,0 +1,24 @@
+-- Cached provider results (see src/services/resultCache.service.ts), one row per provider and normalized input.
+-- evidence holds the provider calls behind the value, replayed into screening_evidence on every cache hit.
+create table if not exists public.result_cache (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  cache_key text not null,
+  value jsonb not null,
+  evidence jsonb,
+  cached_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  unique (provider, cache_key)
+);
+
+create index if not exists result_cache_expires_at_idx
+  on public.result_cache (expires_at);
+
+alter table public.result_cache enable row level security;
+
+create policy "Authenticated users manage the result cache"
+  on public.result_cache
+  for all
+  to authenticated
+  using (true)
+  with check (true);
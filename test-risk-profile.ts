@@ -34,11 +34,14 @@ async function testGenerateRiskProfile(registrationNumber: string) {
       console.log(`  - Registered Date: ${localData.registered}`);
       console.log(`  - Is Active: ${localData.is_active}`);
       console.log(`  - Tax Rating: ${localData.rating || 'N/A'}`);
-      console.log(`  - Has Insolvency: ${localData.has_insolvency}`);
+      console.log(`  - Has Insolvency History: ${localData.has_insolvency_history}`);
+      console.log(`  - Open Insolvency: ${localData.has_open_insolvency}`);
+      console.log(`  - Insolvency Proceedings: ${localData.insolvency_proceedings.length}`);
       console.log(`  - Sepa: ${localData.sepa}`);
       console.log(`  - Type: ${localData.type}`);
       console.log(`  - Closed: ${localData.closed}`);
       console.log(`  - rating updated date: ${localData.rating_updated_date}`);
+      console.log(`  - Tax Rating Grade: ${localData.tax_rating?.grade || 'N/A'} (stale: ${localData.tax_rating?.is_stale ?? 'N/A'})`);
       console.log(`  - Proceeding Type: ${localData.proceeding_type}`);
       console.log(`  - regtype_text: ${localData.regtype_text}`);
     } catch (error) {
@@ -72,11 +75,17 @@ async function testGenerateRiskProfile(registrationNumber: string) {
     console.log('Step 4: Checking external APIs (sanctions, PEPs)...');
     const companyName = localData?.name || 'Unknown Company';
     try {
-      const apiResults = await ExternalApiService.checkAll(registrationNumber, companyName);
+      const apiResults = await ExternalApiService.checkAll(registrationNumber, companyName, 'LV', localData?.address || null);
       console.log('✓ External API checks completed:');
+      console.log(`  - VIES: ${apiResults.vies_status}${apiResults.vies_error ? ` (${apiResults.vies_error})` : ''}`);
+      console.log(`  - VAT: ${apiResults.vat_number} ${apiResults.vat_status || 'unknown'}${apiResults.vies_address_comparison && !apiResults.vies_address_comparison.matches ? ' (address differs from registry)' : ''}`);
+      console.log(`  - Sanctions: ${apiResults.sanctions_status}${apiResults.sanctions_error ? ` (${apiResults.sanctions_error})` : ''}`);
       console.log(`  - Is Sanctioned: ${apiResults.is_sanctioned}`);
       console.log(`  - Sanction Sources: ${apiResults.sanction_sources.join(', ') || 'None'}`);
       console.log(`  - Sanction Details: ${apiResults.sanction_details || 'None'}`);
+      apiResults.sanction_candidates.forEach((candidate) => {
+        console.log(`    · ${candidate.caption} via "${candidate.matched_name}" (${(candidate.score * 100).toFixed(1)}%, ${candidate.topic_category}) → ${candidate.classification}`);
+      });
     } catch (error) {
       console.error('✗ Error checking external APIs:', (error as Error).message);
     }
@@ -103,9 +112,12 @@ async function testGenerateRiskProfile(registrationNumber: string) {
         riskScore += 30;
       }
       
-      if (csvData.has_insolvency) {
-        console.log('  + Has insolvency: +40');
+      if (csvData.has_open_insolvency) {
+        console.log('  + Open insolvency: +40');
         riskScore += 40;
+      } else if (csvData.has_insolvency_history) {
+        console.log('  + Past insolvency: +15');
+        riskScore += 15;
       }
       
       if (apiResults.is_sanctioned) {
@@ -113,8 +125,8 @@ async function testGenerateRiskProfile(registrationNumber: string) {
         riskScore += 50;
       }
       
-      if (csvData.rating && csvData.rating.toLowerCase().includes('poor')) {
-        console.log('  + Poor tax rating: +20');
+      if (csvData.tax_rating?.grade === 'C') {
+        console.log('  + Low tax rating (C): +20');
         riskScore += 20;
       }
       
@@ -144,7 +156,8 @@ async function testGenerateRiskProfile(registrationNumber: string) {
       console.log(`Terminated Date: ${csvData.terminated || 'N/A'}`);
       console.log(`Tax Rating: ${csvData.rating || 'N/A'}`);
       console.log(`Tax Explanation: ${csvData.explanation || 'N/A'}`);
-      console.log(`Has Insolvency: ${csvData.has_insolvency}`);
+      console.log(`Has Insolvency History: ${csvData.has_insolvency_history}`);
+      console.log(`Open Insolvency: ${csvData.has_open_insolvency}`);
       console.log(`Insolvency Details: ${csvData.proceeding_resolution_name || 'N/A'}`);
       console.log(`Is Sanctioned: ${apiResults.is_sanctioned}`);
       console.log(`Sanction Sources: ${apiResults.sanction_sources.join(', ') || 'None'}`);